@@ -5,22 +5,39 @@
  * Builds contextual prompts using extracted information while maintaining natural language flow.
  */
 
+import { PII_PLACEHOLDERS } from './patterns';
+
 interface ExtractedContext {
   age: number | null;
   gender: string | null;
   goal: string | null;
+  location?: string | null | undefined;
 }
 
 interface DetectedPII {
   names: string[];
   emails: string[];
   phones: string[];
+  creditCards: string[];
+  ssns: string[];
+  ibans: string[];
+  ipAddresses: string[];
+  passports: string[];
+  apiKeys: string[];
+  addresses: string[];
 }
 
 interface FormattedPII {
   name: string | null;
   email: string | null;
   phone: string | null;
+  credit_card: string | null;
+  ssn: string | null;
+  iban: string | null;
+  ip_address: string | null;
+  passport: string | null;
+  api_key: string | null;
+  address: string | null;
 }
 
 /**
@@ -114,9 +131,23 @@ export class PromptBuilder {
   }
 
   /**
-   * Build a structured prompt from extracted context information.
+   * Build a structured prompt from extracted context information, mentioning the location
+   * if there is one, e.g. "Suggest tools for building a delivery app in Berlin."
    */
   buildPrompt(extractedContext: ExtractedContext): string {
+    const { goal, location } = extractedContext;
+    const prompt = this.buildContextPrompt(extractedContext);
+
+    if (!location || (goal && goal.toLowerCase().includes(location.toLowerCase()))) {
+      return prompt;
+    }
+    return prompt.replace(/\.$/, ` in ${location}.`);
+  }
+
+  /**
+   * Build a structured prompt from the age, gender and goal.
+   */
+  private buildContextPrompt(extractedContext: ExtractedContext): string {
     const { age, gender, goal } = extractedContext;
     
     // Normalize goal if present
@@ -165,7 +196,8 @@ export class PromptBuilder {
    * Enhance the base prompt with additional context from sanitized text.
    */
   enhanceWithSanitizedText(basePrompt: string, sanitizedText: string): string {
-    if (!sanitizedText || ['', '[NAME]', '[EMAIL]', '[PHONE]'].includes(sanitizedText.trim())) {
+    const placeholderTokens: string[] = Object.values(PII_PLACEHOLDERS);
+    if (!sanitizedText || ['', ...placeholderTokens].includes(sanitizedText.trim())) {
       return basePrompt;
     }
 
@@ -173,7 +205,6 @@ export class PromptBuilder {
     const cleanedText = sanitizedText.trim();
 
     // Remove placeholder tokens if they're the only content or mostly placeholders
-    const placeholderTokens = ['[NAME]', '[EMAIL]', '[PHONE]'];
     const words = cleanedText.split(/\s+/);
     const placeholderCount = words.filter(word =>
       placeholderTokens.some(token => word.includes(token))
@@ -213,6 +244,13 @@ export class PromptBuilder {
       name: detectedPII.names.length > 0 ? detectedPII.names[0] : null,
       email: detectedPII.emails.length > 0 ? detectedPII.emails[0] : null,
       phone: detectedPII.phones.length > 0 ? detectedPII.phones[0] : null,
+      credit_card: detectedPII.creditCards[0] ?? null,
+      ssn: detectedPII.ssns[0] ?? null,
+      iban: detectedPII.ibans[0] ?? null,
+      ip_address: detectedPII.ipAddresses[0] ?? null,
+      passport: detectedPII.passports[0] ?? null,
+      api_key: detectedPII.apiKeys[0] ?? null,
+      address: detectedPII.addresses[0] ?? null,
     };
   }
 }
@@ -3,6 +3,7 @@
 import type { RequestInit, RequestInfo, BodyInit } from './internal/builtin-types';
 import type { HTTPMethod, PromiseOrValue, MergedRequestInit, FinalizedRequestInit } from './internal/types';
 import { uuid4 } from './internal/utils/uuid';
+import { sha256Hex } from './internal/utils/sha256';
 import { validatePositiveInteger, isAbsoluteURL, safeJSON } from './internal/utils/values';
 import { sleep } from './internal/utils/sleep';
 import { type Logger, type LogLevel, parseLogLevel } from './internal/utils/log';
@@ -15,6 +16,19 @@ import * as Opts from './internal/request-options';
 import { VERSION } from './version';
 import * as Errors from './core/error';
 import * as Uploads from './core/uploads';
+import { type Middleware, type MiddlewareRequest, composeMiddleware } from './core/middleware';
+import { type CacheOptions, ResponseCache } from './core/cache';
+import { CircuitBreaker, type CircuitBreakerOptions } from './core/circuit-breaker';
+import { type RetryAttempt, type RetryPolicy, StandardRetryPolicy } from './core/retry-policy';
+import { Telemetry, type TelemetryOptions, type TelemetrySpanContext } from './core/telemetry';
+import { type LogFormat, type LogRedactionOptions, LogRedactor } from './core/logging';
+import { type ResponseValidationMode } from './core/validation';
+import {
+  ConcurrencyLimiter,
+  RateLimiter,
+  type RateLimiterOptions,
+  retryAfterMillis,
+} from './core/rate-limiter';
 import * as API from './resources/index';
 import { APIPromise } from './core/api-promise';
 import { type Fetch } from './internal/builtin-types';
@@ -23,8 +37,20 @@ import { FinalRequestOptions, RequestOptions } from './internal/request-options'
 import {
   Recommend,
   RecommendGetRecommendationsParams,
+  RecommendGetRecommendationsParamsNonStreaming,
+  RecommendGetRecommendationsParamsStreaming,
   RecommendGetRecommendationsResponse,
+  RecommendFollowUpParams,
+  RecommendStreamEvent,
 } from './resources/recommend';
+import { SessionCreateParams, SessionState, SessionStore, Sessions } from './resources/sessions';
+import {
+  Tracking,
+  TrackingConversionParams,
+  TrackingEvent,
+  TrackingEventParams,
+  TrackingOptions,
+} from './resources/tracking';
 import { readEnv } from './internal/utils/env';
 import { formatRequestDetails, loggerFor } from './internal/utils/log';
 import { isEmptyObj } from './internal/utils/values';
@@ -100,11 +126,127 @@ export interface ClientOptions {
    * Defaults to globalThis.console.
    */
   logger?: Logger | undefined;
+
+  /**
+   * Set the log format: `'text'`, or `'json'` for one JSON record per message, with fields such as
+   * `level`, `requestLogID`, `url`, `status` and `durationMs`.
+   *
+   * Defaults to process.env['ADMESH_LOG_FORMAT'] or 'text' if it isn't set.
+   */
+  logFormat?: LogFormat | undefined;
+
+  /**
+   * What to remove from logged request details. By default, secret headers such as `Authorization`
+   * are masked and the `query` fields of request bodies are run through the `PIISanitizer`.
+   *
+   * Pass `false` to log request details as they are, apart from `Authorization` and cookie headers.
+   */
+  logRedaction?: LogRedactionOptions | false | undefined;
+
+  /**
+   * Functions wrapping each HTTP attempt, e.g. to add headers, sign requests or refresh auth.
+   *
+   * They run in array order, the first being outermost, and run again for every retry.
+   */
+  middleware?: Array<Middleware> | undefined;
+
+  /**
+   * Cache recommendation responses for identical queries.
+   *
+   * Skip the cache for a single request with `{ cache: 'no-store' }` in its request options.
+   */
+  cache?: CacheOptions | undefined;
+
+  /**
+   * Stop sending requests while AdMesh is failing. Requests made while the circuit is open throw
+   * `CircuitOpenError` without being sent.
+   *
+   * Pass a `CircuitBreaker` instance to share one circuit between several clients.
+   */
+  circuitBreaker?: CircuitBreakerOptions | CircuitBreaker | undefined;
+
+  /**
+   * Limit how often requests are sent, e.g. `{ limit: 10, interval: 1000 }` for ten per second.
+   * Requests over the limit wait their turn, within their `timeout`. The limiter also pauses when the
+   * API's `retry-after` or `x-ratelimit-*` headers ask it to.
+   *
+   * Pass a `RateLimiter` instance to share one limit between several clients.
+   */
+  rateLimit?: RateLimiterOptions | RateLimiter | undefined;
+
+  /**
+   * The most requests to have in flight at once, counting until their response headers arrive.
+   * Requests over the limit wait their turn, within their `timeout`.
+   *
+   * Pass a `ConcurrencyLimiter` instance to share one limit between several clients.
+   */
+  maxConcurrency?: number | ConcurrencyLimiter | undefined;
+
+  /**
+   * Hedge recommendation requests: if no response has arrived after this many milliseconds, send
+   * an identical request and use whichever response arrives first. Can be set for any single request
+   * with the `hedgeAfter` request option.
+   */
+  hedgeAfter?: number | undefined;
+
+  /**
+   * Decides which failed requests are retried and how long to wait in between, e.g.
+   * `retryPolicies.latencySensitive()`. Can be overridden per request.
+   *
+   * Defaults to exponential backoff, retrying connection errors, timeouts, and 408, 409, 429 and
+   * 5xx responses.
+   */
+  retryPolicy?: RetryPolicy | undefined;
+
+  /**
+   * Trace and measure requests with OpenTelemetry, e.g.
+   * `{ tracer: trace.getTracer('admesh'), meter: metrics.getMeter('admesh') }`.
+   *
+   * Every HTTP attempt gets a client span, linked to the first attempt when it's a retry, and sends
+   * its trace context in the `traceparent` header.
+   */
+  telemetry?: TelemetryOptions | undefined;
+
+  /**
+   * Check responses against their schema at runtime, for endpoints that have one:
+   * - `'strict'` throws a `ResponseValidationError` listing the JSON paths of invalid values;
+   * - `'warn'` logs a warning and drops invalid values, e.g. recommendations missing their `admesh_link`;
+   * - `'off'` returns the raw response body, without checking or coercing anything.
+   *
+   * In `'strict'` and `'warn'` modes, fields that the API is known to send loosely, such as numbers
+   * as strings, are coerced.
+   *
+   * @default 'off'
+   */
+  responseValidation?: ResponseValidationMode | undefined;
+
+  /**
+   * Where `client.sessions` persists conversation state.
+   *
+   * Defaults to an in-memory store; use a shared store (e.g. `KeyValueSessionStore` over Redis)
+   * to resume sessions across server instances.
+   */
+  sessionStore?: SessionStore | undefined;
+
+  /**
+   * Configure how `client.tracking` batches and sends events.
+   */
+  tracking?: TrackingOptions | undefined;
 }
 
+/**
+ * What is carried over from one attempt of a request to its retry.
+ */
+type RetryState = {
+  firstAttemptTime: number;
+  previousDelayMs: number | undefined;
+  firstSpanContext: TelemetrySpanContext | undefined;
+};
+
 /**
  * API Client for interfacing with the Admesh API.
  */
+
 export class Admesh {
   apiKey: string;
 
@@ -113,9 +255,23 @@ export class Admesh {
   timeout: number;
   logger: Logger | undefined;
   logLevel: LogLevel | undefined;
+  logFormat: LogFormat | undefined;
   fetchOptions: MergedRequestInit | undefined;
+  sessionStore: SessionStore | undefined;
+  trackingOptions: TrackingOptions | undefined;
 
   private fetch: Fetch;
+  private responseCache: ResponseCache | undefined;
+  private circuitBreaker: CircuitBreaker | undefined;
+  private rateLimiter: RateLimiter | undefined;
+  private concurrencyLimiter: ConcurrencyLimiter | undefined;
+  private retryPolicy: RetryPolicy;
+  /** @internal */
+  telemetry: Telemetry | undefined;
+  /** @internal */
+  logRedactor: LogRedactor | undefined;
+  /** @internal */
+  responseValidation: ResponseValidationMode;
   #encoder: Opts.RequestEncoder;
   protected idempotencyHeader?: string;
   private _options: ClientOptions;
@@ -131,6 +287,17 @@ export class Admesh {
    * @param {number} [opts.maxRetries=2] - The maximum number of times the client will retry a request.
    * @param {HeadersLike} opts.defaultHeaders - Default headers to include with every request to the API.
    * @param {Record<string, string | undefined>} opts.defaultQuery - Default query parameters to include with every request to the API.
+   * @param {Array<Middleware>} [opts.middleware] - Functions wrapping each HTTP attempt.
+   * @param {CacheOptions} [opts.cache] - Cache recommendation responses for identical queries.
+   * @param {CircuitBreakerOptions | CircuitBreaker} [opts.circuitBreaker] - Stop sending requests while AdMesh is failing.
+   * @param {RateLimiterOptions | RateLimiter} [opts.rateLimit] - Limit how often requests are sent.
+   * @param {number | ConcurrencyLimiter} [opts.maxConcurrency] - The most requests to have in flight at once.
+   * @param {RetryPolicy} [opts.retryPolicy] - Decides which failed requests are retried and when.
+   * @param {number} [opts.hedgeAfter] - Send a second recommendation request if the first is slower than this.
+   * @param {TelemetryOptions} [opts.telemetry] - Trace and measure requests with OpenTelemetry.
+   * @param {ResponseValidationMode} [opts.responseValidation='off'] - Check responses against their schema at runtime.
+   * @param {SessionStore} [opts.sessionStore] - Where `client.sessions` persists conversation state.
+   * @param {TrackingOptions} [opts.tracking] - Configure how `client.tracking` batches and sends events.
    */
   constructor({
     baseURL = readEnv('ADMESH_BASE_URL'),
@@ -168,8 +335,13 @@ export class Admesh {
     };
 
     this.baseURL = options.baseURL!;
-    this.timeout = options.timeout ?? Admesh.DEFAULT_TIMEOUT /* 1 minute */;
+    this.timeout = options.timeout ?? Admesh.DEFAULT_TIMEOUT; /* 1 minute */
     this.logger = options.logger ?? console;
+    const logFormat = options.logFormat ?? readEnv('ADMESH_LOG_FORMAT');
+    this.logFormat = logFormat === 'json' ? 'json' : 'text';
+    if (options.logRedaction !== false) {
+      this.logRedactor = new LogRedactor(options.logRedaction);
+    }
     const defaultLogLevel = 'warn';
     // Set default logLevel early so that we can log a warning in parseLogLevel.
     this.logLevel = defaultLogLevel;
@@ -180,6 +352,33 @@ export class Admesh {
     this.fetchOptions = options.fetchOptions;
     this.maxRetries = options.maxRetries ?? 2;
     this.fetch = options.fetch ?? Shims.getDefaultFetch();
+    this.sessionStore = options.sessionStore;
+    this.trackingOptions = options.tracking;
+    if (options.cache) {
+      this.responseCache = new ResponseCache(options.cache);
+      this.responseCache.onError = (err) => loggerFor(this).warn('response cache error', err);
+    }
+    if (options.circuitBreaker) {
+      this.circuitBreaker =
+        options.circuitBreaker instanceof CircuitBreaker ?
+          options.circuitBreaker
+        : new CircuitBreaker(options.circuitBreaker);
+    }
+    if (options.rateLimit) {
+      this.rateLimiter =
+        options.rateLimit instanceof RateLimiter ? options.rateLimit : new RateLimiter(options.rateLimit);
+    }
+    this.retryPolicy = options.retryPolicy ?? new StandardRetryPolicy();
+    if (options.maxConcurrency !== undefined) {
+      this.concurrencyLimiter =
+        options.maxConcurrency instanceof ConcurrencyLimiter ?
+          options.maxConcurrency
+        : new ConcurrencyLimiter(options.maxConcurrency);
+    }
+    this.responseValidation = options.responseValidation ?? 'off';
+    if (options.telemetry) {
+      this.telemetry = new Telemetry(options.telemetry);
+    }
     this.#encoder = Opts.FallbackEncoder;
 
     this._options = options;
@@ -198,12 +397,23 @@ export class Admesh {
       timeout: this.timeout,
       logger: this.logger,
       logLevel: this.logLevel,
+      logFormat: this.logFormat,
       fetchOptions: this.fetchOptions,
       apiKey: this.apiKey,
       ...options,
     });
   }
 
+  /**
+   * A hash of the API key and base URL, to keep apart what is stored for different accounts,
+   * such as cached responses and queued tracking events, without storing the key itself.
+   *
+   * @internal
+   */
+  get credentialsHash(): string {
+    return sha256Hex(`${this.apiKey}\u0000${this.baseURL}`).slice(0, 16);
+  }
+
   protected defaultQuery(): Record<string, string | undefined> | undefined {
     return this._options.defaultQuery;
   }
@@ -244,6 +454,16 @@ export class Admesh {
     return `stainless-node-retry-${uuid4()}`;
   }
 
+  /**
+   * Generates an idempotency key for requests that are assigned one ahead of time, such as tracking
+   * batches, honouring subclasses that override `defaultIdempotencyKey`.
+   *
+   * @internal
+   */
+  generateIdempotencyKey(): string {
+    return this.defaultIdempotencyKey();
+  }
+
   protected makeStatusError(
     status: number,
     error: Object,
@@ -323,19 +543,36 @@ export class Admesh {
     options: PromiseOrValue<FinalRequestOptions>,
     remainingRetries: number | null = null,
   ): APIPromise<Rsp> {
-    return new APIPromise(this, this.makeRequest(options, remainingRetries, undefined));
+    return new APIPromise(this, this.makeCachedRequest(options, remainingRetries));
+  }
+
+  private async makeCachedRequest(
+    optionsInput: PromiseOrValue<FinalRequestOptions>,
+    retriesRemaining: number | null,
+  ): Promise<APIResponseProps> {
+    const options = await optionsInput;
+    const cacheKey = options.__cacheKey;
+    if (!this.responseCache || !cacheKey || options.cache === 'no-store' || options.stream) {
+      return this.makeRequest(options, retriesRemaining, undefined);
+    }
+    // Clients sharing a store only see their own account's responses.
+    return this.responseCache.fetch(`${this.credentialsHash}:${cacheKey}`, options, (signal) =>
+      this.makeRequest({ ...options, signal }, retriesRemaining, undefined),
+    );
   }
 
   private async makeRequest(
     optionsInput: PromiseOrValue<FinalRequestOptions>,
     retriesRemaining: number | null,
     retryOfRequestLogID: string | undefined,
+    retryState?: RetryState | undefined,
   ): Promise<APIResponseProps> {
     const options = await optionsInput;
     const maxRetries = options.maxRetries ?? this.maxRetries;
     if (retriesRemaining == null) {
       retriesRemaining = maxRetries;
     }
+    const retryPolicy = options.retryPolicy ?? this.retryPolicy;
 
     await this.prepareOptions(options);
 
@@ -347,6 +584,16 @@ export class Admesh {
     const requestLogID = 'log_' + ((Math.random() * (1 << 24)) | 0).toString(16).padStart(6, '0');
     const retryLogStr = retryOfRequestLogID === undefined ? '' : `, retryOf: ${retryOfRequestLogID}`;
     const startTime = Date.now();
+    const firstAttemptTime = retryState?.firstAttemptTime ?? startTime;
+    const failedAttempt = (failure: { response: Response } | { error: Error }): RetryAttempt => ({
+      ...failure,
+      retryCount: maxRetries - retriesRemaining!,
+      retriesRemaining: retriesRemaining!,
+      elapsedMs: Date.now() - firstAttemptTime,
+      previousDelayMs: retryState?.previousDelayMs,
+      retryAfterMs: 'response' in failure ? retryAfterMillis(failure.response.headers) : undefined,
+      options,
+    });
 
     loggerFor(this).debug(
       `[${requestLogID}] sending request`,
@@ -363,9 +610,56 @@ export class Admesh {
       throw new Errors.APIUserAbortError();
     }
 
+    // An open circuit fails fast, before waiting for the limiters. Time spent waiting for them
+    // counts toward the timeout.
+    this.circuitBreaker?.acquire();
+    const signal = options.signal ?? undefined;
+    try {
+      await this.rateLimiter?.acquire(signal, timeout);
+      await this.concurrencyLimiter?.acquire(signal, timeout - (Date.now() - startTime));
+    } catch (err) {
+      this.circuitBreaker?.release();
+      throw err;
+    }
+
+    const telemetryAttempt = this.telemetry?.startAttempt({
+      method: options.method,
+      url,
+      headers: req.headers,
+      requestLogID,
+      retryOfRequestLogID,
+      retryCount: maxRetries - retriesRemaining,
+      retryOf: retryState?.firstSpanContext,
+    });
+    const firstSpanContext = retryState ? retryState.firstSpanContext : telemetryAttempt?.spanContext;
+
     const controller = new AbortController();
-    const response = await this.fetchWithTimeout(url, req, timeout, controller).catch(castToError);
+    let response: Response | Error;
+    try {
+      response = await this.fetchWithMiddleware(
+        { url, init: req, options, retryCount: maxRetries - retriesRemaining },
+        Math.max(timeout - (Date.now() - startTime), 0),
+        controller,
+      );
+    } catch (err) {
+      this.circuitBreaker?.release();
+      telemetryAttempt?.end(castToError(err));
+      throw err;
+    } finally {
+      this.concurrencyLimiter?.release();
+    }
     const headersTime = Date.now();
+    telemetryAttempt?.end(response);
+
+    if (!(response instanceof Error)) {
+      this.rateLimiter?.update(response.status, response.headers);
+    }
+
+    if (response instanceof Error && options.signal?.aborted) {
+      this.circuitBreaker?.release();
+    } else {
+      this.circuitBreaker?.record(response instanceof Error ? 'connection' : response.status);
+    }
 
     if (response instanceof Error) {
       const retryMessage = `retrying, ${retriesRemaining} attempts remaining`;
@@ -379,7 +673,8 @@ export class Admesh {
       const isTimeout =
         isAbortError(response) ||
         /timed? ?out/i.test(String(response) + ('cause' in response ? String(response.cause) : ''));
-      if (retriesRemaining) {
+      const attempt = failedAttempt({ error: response });
+      if (retriesRemaining && retryPolicy.shouldRetry(attempt)) {
         loggerFor(this).info(
           `[${requestLogID}] connection ${isTimeout ? 'timed out' : 'failed'} - ${retryMessage}`,
         );
@@ -392,13 +687,19 @@ export class Admesh {
             message: response.message,
           }),
         );
-        return this.retryRequest(options, retriesRemaining, retryOfRequestLogID ?? requestLogID);
+        return this.retryRequest(options, retriesRemaining, retryOfRequestLogID ?? requestLogID, {
+          retryPolicy,
+          attempt,
+          firstAttemptTime,
+          firstSpanContext,
+        });
       }
+      const errorMessage = retriesRemaining ? `error; not retryable` : `error; no more retries left`;
       loggerFor(this).info(
-        `[${requestLogID}] connection ${isTimeout ? 'timed out' : 'failed'} - error; no more retries left`,
+        `[${requestLogID}] connection ${isTimeout ? 'timed out' : 'failed'} - ${errorMessage}`,
       );
       loggerFor(this).debug(
-        `[${requestLogID}] connection ${isTimeout ? 'timed out' : 'failed'} (error; no more retries left)`,
+        `[${requestLogID}] connection ${isTimeout ? 'timed out' : 'failed'} (${errorMessage})`,
         formatRequestDetails({
           retryOfRequestLogID,
           url,
@@ -417,8 +718,8 @@ export class Admesh {
     } with status ${response.status} in ${headersTime - startTime}ms`;
 
     if (!response.ok) {
-      const shouldRetry = this.shouldRetry(response);
-      if (retriesRemaining && shouldRetry) {
+      const attempt = failedAttempt({ response });
+      if (retriesRemaining && retryPolicy.shouldRetry(attempt)) {
         const retryMessage = `retrying, ${retriesRemaining} attempts remaining`;
 
         // We don't need the body of this response.
@@ -434,15 +735,15 @@ export class Admesh {
             durationMs: headersTime - startTime,
           }),
         );
-        return this.retryRequest(
-          options,
-          retriesRemaining,
-          retryOfRequestLogID ?? requestLogID,
-          response.headers,
-        );
+        return this.retryRequest(options, retriesRemaining, retryOfRequestLogID ?? requestLogID, {
+          retryPolicy,
+          attempt,
+          firstAttemptTime,
+          firstSpanContext,
+        });
       }
 
-      const retryMessage = shouldRetry ? `error; no more retries left` : `error; not retryable`;
+      const retryMessage = retriesRemaining ? `error; not retryable` : `error; no more retries left`;
 
       loggerFor(this).info(`${responseInfo} - ${retryMessage}`);
 
@@ -466,6 +767,7 @@ export class Admesh {
       throw err;
     }
 
+    retryPolicy.onSuccess?.();
     loggerFor(this).info(responseInfo);
     loggerFor(this).debug(
       `[${requestLogID}] response start`,
@@ -481,6 +783,34 @@ export class Admesh {
     return { response, options, controller, requestLogID, retryOfRequestLogID, startTime };
   }
 
+  /**
+   * Sends a request through the middleware. Resolves with the error if `fetch` itself fails, so
+   * that it can be retried; errors thrown by middleware are rethrown as they are.
+   */
+  private async fetchWithMiddleware(
+    request: MiddlewareRequest,
+    timeout: number,
+    controller: AbortController,
+  ): Promise<Response | Error> {
+    const fetchErrors = new WeakSet<Error>();
+    const send = composeMiddleware(this._options.middleware ?? [], async ({ url, init, options }) => {
+      try {
+        return await this.fetchWithHedging(url, init, timeout, controller, this.hedgeAfterFor(options));
+      } catch (err) {
+        const error = castToError(err);
+        fetchErrors.add(error);
+        throw error;
+      }
+    });
+
+    try {
+      return await send(request);
+    } catch (err) {
+      if (err instanceof Error && fetchErrors.has(err)) return err;
+      throw err;
+    }
+  }
+
   async fetchWithTimeout(
     url: RequestInfo,
     init: RequestInit | undefined,
@@ -516,81 +846,132 @@ export class Admesh {
     }
   }
 
-  private shouldRetry(response: Response): boolean {
-    // Note this is not a standard header.
-    const shouldRetryHeader = response.headers.get('x-should-retry');
+  /**
+   * How long to wait before hedging a request, if it may be hedged.
+   */
+  private hedgeAfterFor(options: FinalRequestOptions): number | undefined {
+    return options.hedgeAfter ?? (options.__hedgeable ? this._options.hedgeAfter : undefined);
+  }
+
+  /**
+   * Sends the request and, if no response headers have arrived after `hedgeAfter` milliseconds,
+   * sends it again with the same headers, idempotency key included. The first response wins and
+   * the other request is aborted.
+   *
+   * The second request is only sent if the rate limiter, concurrency limiter and circuit breaker
+   * allow it right away, and it counts toward them like any other attempt. The caller accounts for
+   * the outcome that is returned; the other request is accounted for here.
+   */
+  private fetchWithHedging(
+    url: RequestInfo,
+    init: RequestInit,
+    ms: number,
+    controller: AbortController,
+    hedgeAfter: number | undefined,
+  ): Promise<Response> {
+    // Streamed bodies can't be sent twice.
+    const isReadableBody =
+      ((globalThis as any).ReadableStream && init.body instanceof (globalThis as any).ReadableStream) ||
+      (typeof init.body === 'object' && init.body !== null && Symbol.asyncIterator in init.body);
+    if (hedgeAfter === undefined || hedgeAfter >= ms || isReadableBody) {
+      return this.fetchWithTimeout(url, init, ms, controller);
+    }
 
-    // If the server explicitly says whether or not to retry, obey.
-    if (shouldRetryHeader === 'true') return true;
-    if (shouldRetryHeader === 'false') return false;
+    type Leg = { controller: AbortController; hedge: boolean; done: boolean };
+    const legs: Leg[] = [];
+    let settled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
 
-    // Retry on request timeouts.
-    if (response.status === 408) return true;
+    controller.signal.addEventListener('abort', () => legs.forEach((leg) => leg.controller.abort()));
 
-    // Retry on lock timeouts.
-    if (response.status === 409) return true;
+    // Records the outcome of a request whose result isn't returned.
+    const account = (failed: boolean) => {
+      if (failed && !init.signal?.aborted) this.circuitBreaker?.record('connection');
+      else this.circuitBreaker?.release();
+    };
 
-    // Retry on rate limits.
-    if (response.status === 429) return true;
+    return new Promise<Response>((resolve, reject) => {
+      const settle = () => {
+        settled = true;
+        clearTimeout(timer);
+        legs.filter((leg) => !leg.done).forEach((leg) => leg.controller.abort());
+      };
+
+      const start = (leg: Leg, timeout: number) => {
+        legs.push(leg);
+        const finish = () => {
+          leg.done = true;
+          if (leg.hedge) this.concurrencyLimiter?.release();
+        };
+        this.fetchWithTimeout(url, init, timeout, leg.controller).then(
+          (response) => {
+            finish();
+            if (settled) {
+              // Lost the race after all.
+              void Shims.CancelReadableStream(response.body);
+              account(false);
+              return;
+            }
+            settle();
+            resolve(response);
+          },
+          (err) => {
+            finish();
+            if (settled) return account(false);
+            // Another request may still succeed; if not, the last error is returned.
+            if (legs.some((other) => !other.done)) return account(true);
+            settle();
+            reject(err);
+          },
+        );
+      };
 
-    // Retry internal errors.
-    if (response.status >= 500) return true;
+      start({ controller: new AbortController(), hedge: false, done: false }, ms);
 
-    return false;
+      timer = setTimeout(() => {
+        if (settled) return;
+        try {
+          this.circuitBreaker?.acquire();
+        } catch {
+          return;
+        }
+        if (
+          (this.rateLimiter && !this.rateLimiter.tryAcquire()) ||
+          (this.concurrencyLimiter && !this.concurrencyLimiter.tryAcquire())
+        ) {
+          this.circuitBreaker?.release();
+          return;
+        }
+        loggerFor(this).debug(`no response after ${hedgeAfter}ms, sending a hedged request`);
+        start({ controller: new AbortController(), hedge: true, done: false }, ms - hedgeAfter);
+      }, hedgeAfter);
+    });
   }
 
   private async retryRequest(
     options: FinalRequestOptions,
     retriesRemaining: number,
     requestLogID: string,
-    responseHeaders?: Headers | undefined,
+    {
+      retryPolicy,
+      attempt,
+      firstAttemptTime,
+      firstSpanContext,
+    }: {
+      retryPolicy: RetryPolicy;
+      attempt: RetryAttempt;
+      firstAttemptTime: number;
+      firstSpanContext: TelemetrySpanContext | undefined;
+    },
   ): Promise<APIResponseProps> {
-    let timeoutMillis: number | undefined;
-
-    // Note the `retry-after-ms` header may not be standard, but is a good idea and we'd like proactive support for it.
-    const retryAfterMillisHeader = responseHeaders?.get('retry-after-ms');
-    if (retryAfterMillisHeader) {
-      const timeoutMs = parseFloat(retryAfterMillisHeader);
-      if (!Number.isNaN(timeoutMs)) {
-        timeoutMillis = timeoutMs;
-      }
-    }
+    const delayMs = retryPolicy.delayMs(attempt);
+    await sleep(delayMs);
 
-    // About the Retry-After header: https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After
-    const retryAfterHeader = responseHeaders?.get('retry-after');
-    if (retryAfterHeader && !timeoutMillis) {
-      const timeoutSeconds = parseFloat(retryAfterHeader);
-      if (!Number.isNaN(timeoutSeconds)) {
-        timeoutMillis = timeoutSeconds * 1000;
-      } else {
-        timeoutMillis = Date.parse(retryAfterHeader) - Date.now();
-      }
-    }
-
-    // If the API asks us to wait a certain amount of time (and it's a reasonable amount),
-    // just do what it says, but otherwise calculate a default
-    if (!(timeoutMillis && 0 <= timeoutMillis && timeoutMillis < 60 * 1000)) {
-      const maxRetries = options.maxRetries ?? this.maxRetries;
-      timeoutMillis = this.calculateDefaultRetryTimeoutMillis(retriesRemaining, maxRetries);
-    }
-    await sleep(timeoutMillis);
-
-    return this.makeRequest(options, retriesRemaining - 1, requestLogID);
-  }
-
-  private calculateDefaultRetryTimeoutMillis(retriesRemaining: number, maxRetries: number): number {
-    const initialRetryDelay = 0.5;
-    const maxRetryDelay = 8.0;
-
-    const numRetries = maxRetries - retriesRemaining;
-
-    // Apply exponential backoff, but not more than the max.
-    const sleepSeconds = Math.min(initialRetryDelay * Math.pow(2, numRetries), maxRetryDelay);
-
-    // Apply some jitter, take up to at most 25 percent of the retry time.
-    const jitter = 1 - Math.random() * 0.25;
-
-    return sleepSeconds * jitter * 1000;
+    return this.makeRequest(options, retriesRemaining - 1, requestLogID, {
+      firstAttemptTime,
+      previousDelayMs: delayMs,
+      firstSpanContext,
+    });
   }
 
   buildRequest(
@@ -632,9 +1013,12 @@ export class Admesh {
     retryCount: number;
   }): Headers {
     let idempotencyHeaders: HeadersLike = {};
-    if (this.idempotencyHeader && method !== 'get') {
+    // A hedged request may reach the server twice, so it always gets a key.
+    const idempotencyHeader =
+      this.idempotencyHeader ?? (this.hedgeAfterFor(options) !== undefined ? 'Idempotency-Key' : undefined);
+    if (idempotencyHeader && method !== 'get') {
       if (!options.idempotencyKey) options.idempotencyKey = this.defaultIdempotencyKey();
-      idempotencyHeaders[this.idempotencyHeader] = options.idempotencyKey;
+      idempotencyHeaders[idempotencyHeader] = options.idempotencyKey;
     }
 
     const headers = buildHeaders([
@@ -710,18 +1094,44 @@ export class Admesh {
   static InternalServerError = Errors.InternalServerError;
   static PermissionDeniedError = Errors.PermissionDeniedError;
   static UnprocessableEntityError = Errors.UnprocessableEntityError;
+  static SessionEndedError = Errors.SessionEndedError;
+  static CircuitOpenError = Errors.CircuitOpenError;
+  static ResponseValidationError = Errors.ResponseValidationError;
 
   static toFile = Uploads.toFile;
 
   recommend: API.Recommend = new API.Recommend(this);
+  sessions: API.Sessions = new API.Sessions(this);
+  tracking: API.Tracking = new API.Tracking(this);
 }
 Admesh.Recommend = Recommend;
+Admesh.Sessions = Sessions;
+Admesh.Tracking = Tracking;
 export declare namespace Admesh {
   export type RequestOptions = Opts.RequestOptions;
 
   export {
     Recommend as Recommend,
     type RecommendGetRecommendationsResponse as RecommendGetRecommendationsResponse,
+    type RecommendStreamEvent as RecommendStreamEvent,
     type RecommendGetRecommendationsParams as RecommendGetRecommendationsParams,
+    type RecommendGetRecommendationsParamsNonStreaming as RecommendGetRecommendationsParamsNonStreaming,
+    type RecommendGetRecommendationsParamsStreaming as RecommendGetRecommendationsParamsStreaming,
+    type RecommendFollowUpParams as RecommendFollowUpParams,
+  };
+
+  export {
+    Sessions as Sessions,
+    type SessionState as SessionState,
+    type SessionStore as SessionStore,
+    type SessionCreateParams as SessionCreateParams,
+  };
+
+  export {
+    Tracking as Tracking,
+    type TrackingOptions as TrackingOptions,
+    type TrackingEvent as TrackingEvent,
+    type TrackingEventParams as TrackingEventParams,
+    type TrackingConversionParams as TrackingConversionParams,
   };
 }
@@ -0,0 +1,276 @@
+import { APIUserAbortError } from './error';
+import type { APIResponseProps } from '../internal/parse';
+import type { FinalRequestOptions } from '../internal/request-options';
+import type { PromiseOrValue } from '../internal/types';
+
+/**
+ * A successful response as stored in the cache.
+ */
+export interface CachedResponse {
+  status: number;
+
+  headers: Record<string, string>;
+
+  body: string;
+
+  /**
+   * When the response was stored, in milliseconds since the epoch.
+   */
+  storedAt: number;
+}
+
+/**
+ * Where cached responses are kept. Implement it over Redis, a KV store, etc. to share the cache
+ * between processes.
+ */
+export interface CacheStore {
+  get(key: string): PromiseOrValue<CachedResponse | null | undefined>;
+
+  /**
+   * @param ttl - How long the entry is useful for, in milliseconds, including the
+   * stale-while-revalidate window. Stores may evict it after that.
+   */
+  set(key: string, value: CachedResponse, ttl: number): PromiseOrValue<void>;
+
+  delete(key: string): PromiseOrValue<void>;
+}
+
+export interface CacheOptions {
+  /**
+   * How long a response is fresh for, in milliseconds.
+   * @default 60000
+   */
+  ttl?: number | undefined;
+
+  /**
+   * For how long after it goes stale a response is still returned, while it's refreshed in the
+   * background, in milliseconds.
+   * @default 0
+   */
+  staleWhileRevalidate?: number | undefined;
+
+  /**
+   * The most responses the default in-memory store holds; the least recently used are evicted
+   * first.
+   * @default 500
+   */
+  maxEntries?: number | undefined;
+
+  /**
+   * Defaults to an in-memory {@link LRUCacheStore}.
+   */
+  store?: CacheStore | undefined;
+}
+
+/**
+ * Keeps responses in memory, evicting the least recently used beyond `maxEntries`.
+ */
+export class LRUCacheStore implements CacheStore {
+  #entries = new Map<string, { value: CachedResponse; expiresAt: number }>();
+
+  constructor(readonly maxEntries: number = 500) {}
+
+  get size(): number {
+    return this.#entries.size;
+  }
+
+  get(key: string): CachedResponse | undefined {
+    const entry = this.#entries.get(key);
+    if (!entry) return undefined;
+    this.#entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    // Re-insert so that the entry becomes the most recently used.
+    this.#entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: CachedResponse, ttl: number): void {
+    this.#entries.delete(key);
+    this.#entries.set(key, { value, expiresAt: Date.now() + ttl });
+    for (const oldest of this.#entries.keys()) {
+      if (this.#entries.size <= this.maxEntries) break;
+      this.#entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.#entries.delete(key);
+  }
+
+  clear(): void {
+    this.#entries.clear();
+  }
+}
+
+// A request shared by concurrent misses, aborted once every caller waiting on it has aborted.
+interface InflightRequest {
+  promise: Promise<APIResponseProps>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Serves repeated requests from a {@link CacheStore}. Concurrent misses for the same key share
+ * one request.
+ */
+export class ResponseCache {
+  readonly store: CacheStore;
+  readonly ttl: number;
+  readonly staleWhileRevalidate: number;
+
+  /**
+   * Called when the store fails or a background refresh fails; neither fails the request.
+   */
+  onError: (err: unknown) => void = () => {};
+
+  #inflight = new Map<string, InflightRequest>();
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store ?? new LRUCacheStore(options.maxEntries);
+    this.ttl = options.ttl ?? 60 * 1000;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+  }
+
+  /**
+   * @param load - Sends the request, with a signal that aborts once every caller sharing it has
+   * aborted through its own `options.signal`.
+   */
+  async fetch(
+    key: string,
+    options: FinalRequestOptions,
+    load: (signal: AbortSignal) => Promise<APIResponseProps>,
+  ): Promise<APIResponseProps> {
+    const startTime = Date.now();
+    const cached = await Promise.resolve(this.store.get(key)).catch((err) => {
+      this.onError(err);
+      return undefined;
+    });
+
+    if (cached) {
+      const age = startTime - cached.storedAt;
+      if (age >= 0 && age < this.ttl) {
+        return toResponseProps(cached, options, startTime);
+      }
+      if (age >= 0 && age < this.ttl + this.staleWhileRevalidate) {
+        this.#load(key, load, undefined).catch((err) => this.onError(err));
+        return toResponseProps(cached, options, startTime);
+      }
+    }
+
+    return this.#load(key, load, options.signal ?? undefined);
+  }
+
+  #load(
+    key: string,
+    load: (signal: AbortSignal) => Promise<APIResponseProps>,
+    signal: AbortSignal | undefined,
+  ): Promise<APIResponseProps> {
+    let inflight = this.#inflight.get(key);
+    if (!inflight) {
+      const controller = new AbortController();
+      const request: InflightRequest = {
+        promise: this.#loadAndStore(key, load, controller.signal),
+        controller,
+        waiters: 0,
+      };
+      request.promise.finally(() => this.#forget(key, request)).catch(() => {});
+      this.#inflight.set(key, (inflight = request));
+    }
+    return this.#wait(key, inflight, signal);
+  }
+
+  #wait(key: string, inflight: InflightRequest, signal: AbortSignal | undefined): Promise<APIResponseProps> {
+    if (signal?.aborted) return Promise.reject(new APIUserAbortError());
+    inflight.waiters++;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (--inflight.waiters === 0) {
+          // Nobody is left waiting; later callers start a new request.
+          this.#forget(key, inflight);
+          inflight.controller.abort();
+        }
+        reject(new APIUserAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      inflight.promise
+        .finally(() => signal?.removeEventListener('abort', onAbort))
+        .then(
+          // Each caller needs its own body to read.
+          (props) => resolve({ ...props, response: props.response.clone() }),
+          reject,
+        );
+    });
+  }
+
+  #forget(key: string, inflight: InflightRequest) {
+    if (this.#inflight.get(key) === inflight) this.#inflight.delete(key);
+  }
+
+  async #loadAndStore(
+    key: string,
+    load: (signal: AbortSignal) => Promise<APIResponseProps>,
+    signal: AbortSignal,
+  ): Promise<APIResponseProps> {
+    const props = await load(signal);
+    const body = await props.response.clone().text();
+    await Promise.resolve(
+      this.store.set(
+        key,
+        {
+          status: props.response.status,
+          headers: Object.fromEntries(props.response.headers.entries()),
+          body,
+          storedAt: Date.now(),
+        },
+        this.ttl + this.staleWhileRevalidate,
+      ),
+    ).catch((err) => this.onError(err));
+    return props;
+  }
+}
+
+/**
+ * The `requestLogID` of responses served from the cache.
+ */
+export const CACHED_REQUEST_LOG_ID = 'log_cache';
+
+// Responses with these statuses can't have a body, not even an empty one.
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+
+function toResponseProps(
+  cached: CachedResponse,
+  options: FinalRequestOptions,
+  startTime: number,
+): APIResponseProps {
+  return {
+    response: new Response(NULL_BODY_STATUSES.includes(cached.status) ? null : cached.body, {
+      status: cached.status,
+      headers: cached.headers,
+    }),
+    options,
+    controller: new AbortController(),
+    requestLogID: CACHED_REQUEST_LOG_ID,
+    retryOfRequestLogID: undefined,
+    startTime,
+  };
+}
+
+/**
+ * A stable cache key for a request body: keys are sorted, unset values are dropped, and the
+ * `query` is compared case- and whitespace-insensitively.
+ */
+export function normalizeCacheKey(prefix: string, body: Record<string, unknown>): string {
+  const normalized = Object.keys(body)
+    .sort()
+    .filter((key) => body[key] !== undefined && body[key] !== null)
+    .map((key) => {
+      const value = body[key];
+      return [key, key === 'query' && typeof value === 'string' ? normalizeQuery(value) : value];
+    });
+  return `${prefix}:${JSON.stringify(normalized)}`;
+}
+
+function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -0,0 +1,163 @@
+import { CircuitOpenError } from './error';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * The kinds of failed attempts a circuit breaker can count: `4xx` covers client errors other than 429, and
+ * `connection` covers connection errors and timeouts.
+ */
+export type FailureClass = '4xx' | '429' | '5xx' | 'connection';
+
+export interface CircuitBreakerOptions {
+  /**
+   * How many consecutive failed attempts of each class open the circuit. Classes left out are not
+   * counted as failures.
+   * @default { '5xx': 5, connection: 5 }
+   */
+  failureThresholds?: Partial<Record<FailureClass, number>> | undefined;
+
+  /**
+   * How long the circuit stays open before letting trial requests through, in milliseconds.
+   * @default 30000
+   */
+  cooldown?: number | undefined;
+
+  /**
+   * How many trial requests may run at once while half-open. If any of them fails the circuit
+   * opens again; once this many have succeeded it closes.
+   * @default 1
+   */
+  halfOpenRequests?: number | undefined;
+
+  /**
+   * Called whenever the circuit changes state.
+   */
+  onStateChange?: ((state: CircuitState, previous: CircuitState) => void) | undefined;
+}
+
+/**
+ * Stops sending requests to AdMesh while it is failing, so that retries across many concurrent calls
+ * don't keep load on a degraded service.
+ *
+ * While closed, consecutive failed attempts are counted per {@link FailureClass}, and any success
+ * resets the counts; failures of classes that aren't counted, such as an ordinary 400 by default,
+ * change nothing. Reaching a class's threshold opens the circuit: requests then fail fast with
+ * {@link CircuitOpenError} until the cooldown passes. The circuit is then half-open, letting a few
+ * trial requests through to decide whether to close or open again.
+ *
+ * Pass an instance to several clients as `circuitBreaker` to share its state between them.
+ */
+export class CircuitBreaker {
+  readonly failureThresholds: Partial<Record<FailureClass, number>>;
+  readonly cooldown: number;
+  readonly halfOpenRequests: number;
+
+  #state: CircuitState = 'closed';
+  #failures: Partial<Record<FailureClass, number>> = {};
+  #openedAt = 0;
+  #trials = 0;
+  #trialSuccesses = 0;
+  #onStateChange: CircuitBreakerOptions['onStateChange'];
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThresholds = options.failureThresholds ?? { '5xx': 5, connection: 5 };
+    this.cooldown = options.cooldown ?? 30 * 1000;
+    this.halfOpenRequests = options.halfOpenRequests ?? 1;
+    this.#onStateChange = options.onStateChange;
+  }
+
+  get state(): CircuitState {
+    if (this.#state === 'open' && Date.now() - this.#openedAt >= this.cooldown) {
+      this.#transition('half-open');
+    }
+    return this.#state;
+  }
+
+  /**
+   * Reserves an attempt. Every call must be followed by one call to {@link record} or
+   * {@link release}.
+   *
+   * @throws CircuitOpenError if the circuit is open, or half-open with all trial requests running
+   */
+  acquire(): void {
+    const state = this.state;
+    if (state === 'closed') return;
+    if (state === 'half-open' && this.#trials < this.halfOpenRequests) {
+      this.#trials++;
+      return;
+    }
+    throw new CircuitOpenError({
+      retryAfterMs: state === 'open' ? this.#openedAt + this.cooldown - Date.now() : undefined,
+    });
+  }
+
+  /**
+   * Records the outcome of an attempt: its HTTP status, or `'connection'` if there was no response.
+   */
+  record(outcome: number | 'connection'): void {
+    const failureClass = classify(outcome);
+    const succeeded = failureClass === undefined;
+    const failed = !succeeded && this.failureThresholds[failureClass] !== undefined;
+
+    if (this.#state === 'half-open') {
+      this.#trials = Math.max(this.#trials - 1, 0);
+      if (failed) {
+        this.#open();
+      } else if (succeeded && ++this.#trialSuccesses >= this.halfOpenRequests) {
+        this.#transition('closed');
+      }
+      return;
+    }
+    // Attempts that started before the circuit opened don't affect it.
+    if (this.#state === 'open') return;
+
+    if (succeeded) {
+      this.#failures = {};
+      return;
+    }
+    if (!failed) return;
+    const count = (this.#failures[failureClass] ?? 0) + 1;
+    this.#failures[failureClass] = count;
+    if (count >= this.failureThresholds[failureClass]!) {
+      this.#open();
+    }
+  }
+
+  /**
+   * Gives back an attempt whose outcome says nothing about the service, e.g. one the user aborted.
+   */
+  release(): void {
+    if (this.#state === 'half-open') {
+      this.#trials = Math.max(this.#trials - 1, 0);
+    }
+  }
+
+  /**
+   * Closes the circuit and forgets past failures.
+   */
+  reset(): void {
+    this.#transition('closed');
+  }
+
+  #open() {
+    this.#openedAt = Date.now();
+    this.#transition('open');
+  }
+
+  #transition(state: CircuitState) {
+    const previous = this.#state;
+    this.#state = state;
+    this.#failures = {};
+    this.#trials = 0;
+    this.#trialSuccesses = 0;
+    if (state !== previous) this.#onStateChange?.(state, previous);
+  }
+}
+
+function classify(outcome: number | 'connection'): FailureClass | undefined {
+  if (outcome === 'connection') return 'connection';
+  if (outcome === 429) return '429';
+  if (outcome >= 500) return '5xx';
+  if (outcome >= 400) return '4xx';
+  return undefined;
+}
@@ -1,6 +1,7 @@
 // File generated from our OpenAPI spec by Stainless. See CONTRIBUTING.md for details.
 
 import { castToError } from '../internal/errors';
+import type { ValidationIssue } from './validation';
 
 export class AdmeshError extends Error {}
 
@@ -135,3 +136,40 @@ export class NoRecommendationsError extends AdmeshError {
     this.name = 'NoRecommendationsError';
   }
 }
+
+export class SessionEndedError extends AdmeshError {
+  constructor({ message = 'The session has ended.' }: { message?: string } = {}) {
+    super(message);
+    this.name = 'SessionEndedError';
+  }
+}
+
+export class CircuitOpenError extends AdmeshError {
+  /** How long until the circuit lets a trial request through, in milliseconds, if known */
+  readonly retryAfterMs: number | undefined;
+
+  constructor({
+    message = 'The circuit breaker is open; not sending the request.',
+    retryAfterMs,
+  }: { message?: string; retryAfterMs?: number | undefined } = {}) {
+    super(message);
+    this.name = 'CircuitOpenError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ResponseValidationError extends AdmeshError {
+  /** The values that didn't match the response schema, with their JSON paths */
+  readonly issues: ValidationIssue[];
+
+  constructor({ message, issues }: { message?: string; issues: ValidationIssue[] }) {
+    super(
+      message ??
+        `The response didn't match its schema:\n${issues
+          .map((issue) => `  ${issue.path}: ${issue.message}`)
+          .join('\n')}`,
+    );
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,149 @@
+import { PIISanitizer } from '../sanitizer';
+
+/**
+ * How log messages are written:
+ * - `'text'` passes the message and its details to the logger as they are;
+ * - `'json'` passes a single JSON string per message, e.g.
+ *   `{"level":"info","time":"…","message":"…","requestLogID":"log_1a2b3c","status":200,"durationMs":120}`.
+ */
+export type LogFormat = 'text' | 'json';
+
+export interface LogRedactionOptions {
+  /**
+   * Headers whose values are replaced with `***`.
+   * @default ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key']
+   */
+  headers?: ReadonlyArray<string> | undefined;
+
+  /**
+   * Body and query fields whose text is run through the `PIISanitizer`, at any depth.
+   * @default ['query', 'previous_query']
+   */
+  piiFields?: ReadonlyArray<string> | undefined;
+
+  /**
+   * Body and query fields whose values are replaced with `***`, at any depth.
+   * @default []
+   */
+  maskFields?: ReadonlyArray<string> | undefined;
+
+  /**
+   * The sanitizer for `piiFields`.
+   * @default new PIISanitizer()
+   */
+  sanitizer?: PIISanitizer | undefined;
+}
+
+const MASK = '***';
+// Deeper values are replaced wholesale rather than walked.
+const MAX_DEPTH = 8;
+
+/**
+ * Removes secrets and personal information from the details of log messages.
+ */
+export class LogRedactor {
+  readonly headers: ReadonlySet<string>;
+  readonly piiFields: ReadonlySet<string>;
+  readonly maskFields: ReadonlySet<string>;
+
+  #sanitizer: PIISanitizer | undefined;
+
+  constructor(options: LogRedactionOptions = {}) {
+    const lowerCase = (names: ReadonlyArray<string>) => new Set(names.map((name) => name.toLowerCase()));
+    this.headers = lowerCase(
+      options.headers ?? ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'],
+    );
+    this.piiFields = new Set(options.piiFields ?? ['query', 'previous_query']);
+    this.maskFields = new Set(options.maskFields ?? []);
+    this.#sanitizer = options.sanitizer;
+  }
+
+  /**
+   * Returns a redacted copy of a log argument. Only plain objects and arrays are redacted; other
+   * values, such as errors, are returned as they are.
+   */
+  redact(value: unknown): unknown {
+    if (!isPlainObject(value)) return value;
+    const { headers, ...rest } = value;
+    const redacted = this.#redactFields(rest, 0) as Record<string, unknown>;
+    if (isPlainObject(headers)) {
+      redacted['headers'] = Object.fromEntries(
+        Object.entries(headers).map(([name, value]) => [
+          name,
+          this.headers.has(name.toLowerCase()) ? MASK : value,
+        ]),
+      );
+    } else if (headers !== undefined) {
+      redacted['headers'] = headers;
+    }
+    return redacted;
+  }
+
+  #redactFields(value: unknown, depth: number): unknown {
+    if (Array.isArray(value)) {
+      return depth >= MAX_DEPTH ? MASK : value.map((item) => this.#redactFields(item, depth + 1));
+    }
+    if (!isPlainObject(value)) return value;
+    if (depth >= MAX_DEPTH) return MASK;
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => {
+        if (this.maskFields.has(key)) return [key, MASK];
+        if (this.piiFields.has(key) && typeof field === 'string') return [key, this.#sanitize(field)];
+        return [key, this.#redactFields(field, depth + 1)];
+      }),
+    );
+  }
+
+  #sanitize(text: string): string {
+    this.#sanitizer ??= new PIISanitizer();
+    return this.#sanitizer.analyzeText(text).sanitizedText;
+  }
+}
+
+// The request log ID prefix of the client's messages, e.g. `[log_1a2b3c, retryOf: log_4d5e6f] `.
+const REQUEST_LOG_ID = /^\[(log_\w+)(?:, retryOf: (log_\w+))?\] /;
+// The client's messages for received responses, e.g. `post https://… succeeded with status 200 in 120ms`.
+const RESPONSE_SUMMARY = /^([a-z]+) (\S+) (?:succeeded|failed) with status (\d+) in (\d+)ms/;
+
+/**
+ * Formats a log message and its arguments as a single-line JSON record.
+ */
+export function formatLogRecord(level: string, message: string, args: unknown[]): string {
+  const record: Record<string, unknown> = { level, time: new Date().toISOString(), message };
+
+  const tag = REQUEST_LOG_ID.exec(message);
+  if (tag) {
+    record['message'] = message.slice(tag[0].length);
+    record['requestLogID'] = tag[1];
+    if (tag[2]) record['retryOf'] = tag[2];
+    const summary = RESPONSE_SUMMARY.exec(record['message'] as string);
+    if (summary) {
+      record['method'] = summary[1];
+      record['url'] = summary[2];
+      record['status'] = Number(summary[3]);
+      record['durationMs'] = Number(summary[4]);
+    }
+  }
+
+  const extra: unknown[] = [];
+  for (const arg of args) {
+    if (isPlainObject(arg)) Object.assign(record, arg);
+    else if (arg instanceof Error) record['error'] = { name: arg.name, message: arg.message };
+    else extra.push(arg);
+  }
+  if (extra.length) record['args'] = extra;
+
+  try {
+    return JSON.stringify(record);
+  } catch {
+    // e.g. a bigint or a circular reference in a logged body.
+    return JSON.stringify({ level, time: record['time'], message: record['message'] });
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
@@ -0,0 +1,59 @@
+import type { FinalizedRequestInit } from '../internal/types';
+import type { FinalRequestOptions } from '../internal/request-options';
+
+/**
+ * A single HTTP attempt, as seen by middleware.
+ */
+export interface MiddlewareRequest {
+  url: string;
+
+  /**
+   * The `fetch` init, including the final headers. Middleware may modify it or pass a new object
+   * to `next`.
+   */
+  init: FinalizedRequestInit;
+
+  /**
+   * The options the request was made with.
+   */
+  options: FinalRequestOptions;
+
+  /**
+   * How many times this request has been retried so far; `0` for the first attempt.
+   */
+  retryCount: number;
+}
+
+export type MiddlewareNext = (req: MiddlewareRequest) => Promise<Response>;
+
+/**
+ * Wraps each HTTP attempt made by the client. Call `next` to continue with the request, and
+ * return its response or a different one.
+ *
+ * Middleware runs in array order, the first being outermost, and runs again for every retry. The
+ * response it returns is what the client checks for errors and retries. Errors thrown by the
+ * middleware itself are not retried and reach the caller unchanged.
+ *
+ * @example
+ * ```ts
+ * const client = new Admesh({
+ *   middleware: [
+ *     async (req, next) => {
+ *       req.init.headers.set('X-Request-Source', 'my-app');
+ *       return next(req);
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export type Middleware = (req: MiddlewareRequest, next: MiddlewareNext) => Promise<Response>;
+
+/**
+ * Composes middleware around `fetch`, so that `middleware[0]` runs first.
+ */
+export function composeMiddleware(
+  middleware: ReadonlyArray<Middleware>,
+  fetch: MiddlewareNext,
+): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>((next, fn) => (req) => fn(req, next), fetch);
+}
@@ -0,0 +1,317 @@
+import { AdmeshError, APIConnectionTimeoutError, APIUserAbortError } from './error';
+import { validatePositiveInteger } from '../internal/utils/values';
+
+export interface RateLimiterOptions {
+  /**
+   * How many requests may be sent per `interval`.
+   */
+  limit: number;
+
+  /**
+   * In milliseconds.
+   * @default 1000
+   */
+  interval?: number | undefined;
+
+  /**
+   * How many requests may be sent at once after a quiet period.
+   * @default limit
+   */
+  burst?: number | undefined;
+}
+
+interface Waiter {
+  resolve(): void;
+}
+
+// A limit of zero would hold requests forever.
+function validateLimit(name: string, n: unknown): number {
+  if (validatePositiveInteger(name, n) === 0) {
+    throw new AdmeshError(`${name} must be greater than 0`);
+  }
+  return n as number;
+}
+
+/**
+ * Waits in `queue` until the waiter is resolved, rejecting if the signal aborts or the timeout
+ * passes first. `onCancel` is called after such a waiter leaves the queue.
+ */
+function enqueue(
+  queue: Waiter[],
+  signal: AbortSignal | undefined,
+  timeout: number | undefined,
+  onCancel?: () => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const waiter: Waiter = {
+      resolve: () => {
+        cleanup();
+        resolve();
+      },
+    };
+    const remove = (err: Error) => {
+      const index = queue.indexOf(waiter);
+      if (index !== -1) queue.splice(index, 1);
+      cleanup();
+      reject(err);
+      onCancel?.();
+    };
+    const onAbort = () => remove(new APIUserAbortError());
+    const timer =
+      timeout === undefined ? undefined : (
+        setTimeout(
+          () => remove(new APIConnectionTimeoutError({ message: 'Request timed out waiting to be sent.' })),
+          timeout,
+        )
+      );
+
+    if (signal?.aborted) return remove(new APIUserAbortError());
+    signal?.addEventListener('abort', onAbort);
+    queue.push(waiter);
+  });
+}
+
+/**
+ * A token bucket limiting how often requests are sent. Requests over the limit wait, in order,
+ * for a token.
+ *
+ * The limiter also follows the API's own limits: after a `429` or `503` with a `retry-after`
+ * header, or an `x-ratelimit-remaining` of zero, it holds all requests until the indicated time.
+ *
+ * Pass an instance to several clients as `rateLimit` to share one limit between them.
+ */
+export class RateLimiter {
+  readonly limit: number;
+  readonly interval: number;
+  readonly burst: number;
+
+  #tokens: number;
+  #updatedAt = Date.now();
+  #pausedUntil = 0;
+  #queue: Waiter[] = [];
+  #timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: RateLimiterOptions) {
+    this.limit = validateLimit('rateLimit.limit', options.limit);
+    this.interval = validateLimit('rateLimit.interval', options.interval ?? 1000);
+    this.burst = validateLimit('rateLimit.burst', options.burst ?? options.limit);
+    this.#tokens = this.burst;
+  }
+
+  /**
+   * How many requests are waiting for a token.
+   */
+  get pending(): number {
+    return this.#queue.length;
+  }
+
+  /**
+   * Resolves when the request may be sent.
+   *
+   * @throws APIUserAbortError if `signal` aborts first
+   * @throws APIConnectionTimeoutError if `timeout` milliseconds pass first
+   */
+  acquire(signal?: AbortSignal | undefined, timeout?: number | undefined): Promise<void> {
+    if (this.tryAcquire()) return Promise.resolve();
+    const promise = enqueue(this.#queue, signal, timeout, () => {
+      // Don't keep a timer around with nothing to wait for.
+      if (!this.#queue.length) {
+        clearTimeout(this.#timer);
+        this.#timer = undefined;
+      }
+    });
+    this.#schedule();
+    return promise;
+  }
+
+  /**
+   * Takes a token if one is available now, without waiting.
+   */
+  tryAcquire(): boolean {
+    this.#refill();
+    if (!this.#queue.length && this.#tokens >= 1 && Date.now() >= this.#pausedUntil) {
+      this.#tokens--;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Adjusts the limiter to the rate limit headers of a response.
+   */
+  update(status: number, headers: Headers): void {
+    const now = Date.now();
+    this.#refill();
+
+    if (status === 429 || status === 503) {
+      const retryAfter = retryAfterMillis(headers);
+      if (retryAfter !== undefined && retryAfter > 0 && retryAfter < 60 * 1000) {
+        this.#pause(now + retryAfter);
+      }
+    }
+
+    const remaining = parseFloat(
+      headers.get('x-ratelimit-remaining-requests') ?? headers.get('x-ratelimit-remaining') ?? '',
+    );
+    if (Number.isNaN(remaining)) return;
+    this.#tokens = Math.min(this.#tokens, Math.max(remaining, 0));
+    if (remaining <= 0) {
+      const reset = parseResetMillis(
+        headers.get('x-ratelimit-reset-requests') ?? headers.get('x-ratelimit-reset'),
+        now,
+      );
+      if (reset !== undefined && reset > 0 && reset <= 60 * 1000) this.#pause(now + reset);
+    }
+  }
+
+  #pause(until: number) {
+    // Nothing is sent until then, after which the bucket fills up again from one token.
+    this.#pausedUntil = Math.max(this.#pausedUntil, until);
+    this.#tokens = 1;
+    this.#updatedAt = this.#pausedUntil;
+  }
+
+  #refill() {
+    const now = Date.now();
+    if (now <= this.#updatedAt) return;
+    this.#tokens = Math.min(
+      this.burst,
+      this.#tokens + ((now - this.#updatedAt) * this.limit) / this.interval,
+    );
+    this.#updatedAt = now;
+  }
+
+  #schedule() {
+    if (this.#timer !== undefined || !this.#queue.length) return;
+    const now = Date.now();
+    const refillAt = this.#updatedAt + ((1 - this.#tokens) * this.interval) / this.limit;
+    const wait = Math.max(this.#pausedUntil - now, refillAt - now, 0);
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      this.#drain();
+    }, wait);
+  }
+
+  #drain() {
+    this.#refill();
+    while (this.#queue.length && this.#tokens >= 1 && Date.now() >= this.#pausedUntil) {
+      this.#tokens--;
+      this.#queue.shift()!.resolve();
+    }
+    this.#schedule();
+  }
+}
+
+/**
+ * Limits how many requests are in flight at once. Requests over the limit wait, in order, for
+ * one to finish.
+ *
+ * Pass an instance to several clients as `maxConcurrency` to share one limit between them.
+ */
+export class ConcurrencyLimiter {
+  #active = 0;
+  #queue: Waiter[] = [];
+
+  readonly maxConcurrency: number;
+
+  constructor(maxConcurrency: number) {
+    this.maxConcurrency = validateLimit('maxConcurrency', maxConcurrency);
+  }
+
+  /**
+   * How many requests are in flight.
+   */
+  get active(): number {
+    return this.#active;
+  }
+
+  /**
+   * How many requests are waiting to be sent.
+   */
+  get pending(): number {
+    return this.#queue.length;
+  }
+
+  /**
+   * Resolves when the request may be sent. Every successful call must be followed by one call to
+   * {@link release}.
+   *
+   * @throws APIUserAbortError if `signal` aborts first
+   * @throws APIConnectionTimeoutError if `timeout` milliseconds pass first
+   */
+  acquire(signal?: AbortSignal | undefined, timeout?: number | undefined): Promise<void> {
+    if (this.tryAcquire()) return Promise.resolve();
+    return enqueue(this.#queue, signal, timeout);
+  }
+
+  /**
+   * Takes a slot if one is free now, without waiting.
+   */
+  tryAcquire(): boolean {
+    if (!this.#queue.length && this.#active < this.maxConcurrency) {
+      this.#active++;
+      return true;
+    }
+    return false;
+  }
+
+  release(): void {
+    const next = this.#queue.shift();
+    // The slot passes straight to the next waiter.
+    if (next) next.resolve();
+    else this.#active = Math.max(this.#active - 1, 0);
+  }
+}
+
+/**
+ * The delay asked for by the `retry-after-ms` or `retry-after` header, in milliseconds.
+ */
+export function retryAfterMillis(headers: Headers | undefined): number | undefined {
+  // Note the `retry-after-ms` header may not be standard, but is a good idea and we'd like proactive support for it.
+  const retryAfterMillisHeader = headers?.get('retry-after-ms');
+  if (retryAfterMillisHeader) {
+    const timeoutMs = parseFloat(retryAfterMillisHeader);
+    if (!Number.isNaN(timeoutMs) && timeoutMs) {
+      return timeoutMs;
+    }
+  }
+
+  // About the Retry-After header: https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After
+  const retryAfterHeader = headers?.get('retry-after');
+  if (retryAfterHeader) {
+    const timeoutSeconds = parseFloat(retryAfterHeader);
+    if (!Number.isNaN(timeoutSeconds)) {
+      return timeoutSeconds * 1000;
+    }
+    const date = Date.parse(retryAfterHeader);
+    if (!Number.isNaN(date)) {
+      return date - Date.now();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses an `x-ratelimit-reset` value: seconds until the reset, a Unix timestamp in seconds, or a
+ * duration such as `1m30s` or `250ms`.
+ */
+function parseResetMillis(value: string | null, now: number): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    const seconds = parseFloat(value);
+    // Large values are timestamps rather than delays.
+    return seconds > 1e9 ? seconds * 1000 - now : seconds * 1000;
+  }
+  const units: Record<string, number> = { h: 3600 * 1000, m: 60 * 1000, s: 1000, ms: 1 };
+  let total = 0;
+  let matched = '';
+  for (const match of value.trim().matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    total += parseFloat(match[1]!) * units[match[2]!]!;
+    matched += match[0];
+  }
+  return matched && matched === value.trim() ? total : undefined;
+}
@@ -0,0 +1,311 @@
+import type { FinalRequestOptions } from '../internal/request-options';
+
+/**
+ * A failed attempt, as seen by a {@link RetryPolicy}.
+ */
+export interface RetryAttempt {
+  /**
+   * The failed response, unless the request failed without one.
+   */
+  response?: Response | undefined;
+
+  /**
+   * The connection error or timeout, if there was no response.
+   */
+  error?: Error | undefined;
+
+  /**
+   * How many times the request has been retried so far; `0` after the first attempt.
+   */
+  retryCount: number;
+
+  /**
+   * How many more retries `maxRetries` allows. Always at least `1`: the policy isn't consulted
+   * once retries run out.
+   */
+  retriesRemaining: number;
+
+  /**
+   * Milliseconds since the first attempt started.
+   */
+  elapsedMs: number;
+
+  /**
+   * The delay before the previous retry, if there was one.
+   */
+  previousDelayMs: number | undefined;
+
+  /**
+   * The delay asked for by the response's `retry-after-ms` or `retry-after` header, if any.
+   */
+  retryAfterMs: number | undefined;
+
+  options: FinalRequestOptions;
+}
+
+/**
+ * Decides which failed attempts are retried, and when.
+ *
+ * Set it for a client with `retryPolicy` in the client options, or for a single request with
+ * `retryPolicy` in the request options. `maxRetries` still caps the number of retries.
+ */
+export interface RetryPolicy {
+  /**
+   * Whether to retry the attempt. Returning `true` commits to the retry, so policies with a
+   * budget spend it here.
+   */
+  shouldRetry(attempt: RetryAttempt): boolean;
+
+  /**
+   * How long to wait before the retry, in milliseconds.
+   */
+  delayMs(attempt: RetryAttempt): number;
+
+  /**
+   * Called when a request succeeds.
+   */
+  onSuccess?(): void;
+}
+
+export interface RetryBudgetOptions {
+  /**
+   * How many retries can be made in a burst.
+   * @default 10
+   */
+  capacity?: number | undefined;
+
+  /**
+   * How many retries each successful request earns back, e.g. `0.1` allows one retry for every
+   * ten successes once the budget is spent.
+   * @default 0.1
+   */
+  refillPerSuccess?: number | undefined;
+}
+
+/**
+ * Limits retries across all the requests that share it, so that an outage doesn't multiply the
+ * load on the API by `maxRetries`.
+ */
+export class RetryBudget {
+  readonly capacity: number;
+  readonly refillPerSuccess: number;
+
+  #tokens: number;
+
+  constructor(options: RetryBudgetOptions = {}) {
+    this.capacity = options.capacity ?? 10;
+    this.refillPerSuccess = options.refillPerSuccess ?? 0.1;
+    this.#tokens = this.capacity;
+  }
+
+  /**
+   * How many retries are left.
+   */
+  get remaining(): number {
+    return Math.floor(this.#tokens);
+  }
+
+  /**
+   * Spends one retry, returning `false` if none are left.
+   */
+  trySpend(): boolean {
+    if (this.#tokens < 1) return false;
+    this.#tokens--;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.#tokens = Math.min(this.capacity, this.#tokens + this.refillPerSuccess);
+  }
+}
+
+export interface StandardRetryPolicyOptions {
+  /**
+   * How delays grow between retries:
+   * - `'exponential'` doubles the delay for every retry and takes off up to 25% at random;
+   * - `'decorrelated'` picks a random delay between `initialDelayMs` and three times the previous
+   *   delay, which spreads out retries from many clients better.
+   * @default 'exponential'
+   */
+  backoff?: 'exponential' | 'decorrelated' | undefined;
+
+  /**
+   * @default 500
+   */
+  initialDelayMs?: number | undefined;
+
+  /**
+   * @default 8000
+   */
+  maxDelayMs?: number | undefined;
+
+  /**
+   * Stop retrying once the next attempt would start this many milliseconds after the first one.
+   */
+  maxElapsedMs?: number | undefined;
+
+  /**
+   * The statuses to retry. The `x-should-retry` response header overrides this.
+   * @default [408, 409, 429, 500, 502, 503, 504] and any other status from 500
+   */
+  retryStatuses?: ReadonlyArray<number> | ((status: number) => boolean) | undefined;
+
+  /**
+   * Whether to retry connection errors and timeouts.
+   * @default true
+   */
+  retryConnectionErrors?: boolean | undefined;
+
+  /**
+   * Follow the delay asked for by the `retry-after` headers when it's under a minute.
+   * @default true
+   */
+  respectRetryAfter?: boolean | undefined;
+
+  /**
+   * Limits retries across every request that uses this policy.
+   */
+  budget?: RetryBudget | undefined;
+
+  /**
+   * Returns a number in `[0, 1)`; replace it to make delays deterministic in tests.
+   * @default Math.random
+   */
+  random?: (() => number) | undefined;
+}
+
+const defaultRetryStatus = (status: number) =>
+  // Retry on request timeouts, lock timeouts, rate limits and internal errors.
+  status === 408 || status === 409 || status === 429 || status >= 500;
+
+/**
+ * The configurable {@link RetryPolicy} behind the {@link retryPolicies} presets.
+ */
+export class StandardRetryPolicy implements RetryPolicy {
+  readonly backoff: 'exponential' | 'decorrelated';
+  readonly initialDelayMs: number;
+  readonly maxDelayMs: number;
+  readonly maxElapsedMs: number | undefined;
+  readonly retryConnectionErrors: boolean;
+  readonly respectRetryAfter: boolean;
+  readonly budget: RetryBudget | undefined;
+
+  #retryStatus: (status: number) => boolean;
+  #random: () => number;
+  // The delay picked while checking `maxElapsedMs`, so that the retry waits that long.
+  #delays = new WeakMap<RetryAttempt, number>();
+
+  constructor(options: StandardRetryPolicyOptions = {}) {
+    this.backoff = options.backoff ?? 'exponential';
+    this.initialDelayMs = options.initialDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 8000;
+    this.maxElapsedMs = options.maxElapsedMs;
+    this.retryConnectionErrors = options.retryConnectionErrors ?? true;
+    this.respectRetryAfter = options.respectRetryAfter ?? true;
+    this.budget = options.budget;
+    const statuses = options.retryStatuses;
+    this.#retryStatus =
+      typeof statuses === 'function' ? statuses
+      : statuses ? (status) => statuses.includes(status)
+      : defaultRetryStatus;
+    this.#random = options.random ?? Math.random;
+  }
+
+  shouldRetry(attempt: RetryAttempt): boolean {
+    if (!this.#isRetryable(attempt)) return false;
+    if (this.maxElapsedMs !== undefined && attempt.elapsedMs + this.delayMs(attempt) > this.maxElapsedMs) {
+      return false;
+    }
+    return this.budget?.trySpend() ?? true;
+  }
+
+  delayMs(attempt: RetryAttempt): number {
+    let delay = this.#delays.get(attempt);
+    if (delay === undefined) {
+      delay = this.#computeDelay(attempt);
+      this.#delays.set(attempt, delay);
+    }
+    return delay;
+  }
+
+  #computeDelay(attempt: RetryAttempt): number {
+    const retryAfter = attempt.retryAfterMs;
+    // If the API asks us to wait a certain amount of time (and it's a reasonable amount), just do what it says.
+    if (this.respectRetryAfter && retryAfter && 0 <= retryAfter && retryAfter < 60 * 1000) {
+      return retryAfter;
+    }
+
+    if (this.backoff === 'decorrelated') {
+      const previous = attempt.previousDelayMs ?? this.initialDelayMs;
+      const upper = Math.max(previous * 3, this.initialDelayMs);
+      return Math.min(this.maxDelayMs, this.initialDelayMs + this.#random() * (upper - this.initialDelayMs));
+    }
+
+    // Apply exponential backoff, but not more than the max.
+    const delay = Math.min(this.initialDelayMs * Math.pow(2, attempt.retryCount), this.maxDelayMs);
+
+    // Apply some jitter, take up to at most 25 percent of the retry time.
+    const jitter = 1 - this.#random() * 0.25;
+
+    return delay * jitter;
+  }
+
+  onSuccess(): void {
+    this.budget?.recordSuccess();
+  }
+
+  #isRetryable({ response, error }: RetryAttempt): boolean {
+    if (!response) return !!error && this.retryConnectionErrors;
+
+    // Note this is not a standard header.
+    const shouldRetryHeader = response.headers.get('x-should-retry');
+
+    // If the server explicitly says whether or not to retry, obey.
+    if (shouldRetryHeader === 'true') return true;
+    if (shouldRetryHeader === 'false') return false;
+
+    return this.#retryStatus(response.status);
+  }
+}
+
+/**
+ * Built-in retry policies.
+ */
+export const retryPolicies = {
+  /**
+   * The client's default: exponential backoff from 0.5s up to 8s, retrying connection errors,
+   * timeouts, and 408, 409, 429 and 5xx responses.
+   */
+  standard: (options?: StandardRetryPolicyOptions): StandardRetryPolicy => new StandardRetryPolicy(options),
+
+  /**
+   * For calls on the hot path of a user request, such as recommendations shown in a chat: short,
+   * decorrelated delays, giving up after three seconds in total.
+   */
+  latencySensitive: (options?: StandardRetryPolicyOptions): StandardRetryPolicy =>
+    new StandardRetryPolicy({
+      backoff: 'decorrelated',
+      initialDelayMs: 100,
+      maxDelayMs: 1000,
+      maxElapsedMs: 3000,
+      ...options,
+    }),
+
+  /**
+   * For background work such as tracking: decorrelated delays up to 30s, with retries limited by
+   * a budget so that an outage doesn't multiply the load on the API.
+   */
+  background: (options?: StandardRetryPolicyOptions): StandardRetryPolicy =>
+    new StandardRetryPolicy({
+      backoff: 'decorrelated',
+      initialDelayMs: 1000,
+      maxDelayMs: 30 * 1000,
+      budget: new RetryBudget(),
+      ...options,
+    }),
+
+  /**
+   * Never retries.
+   */
+  none: (): RetryPolicy => ({ shouldRetry: () => false, delayMs: () => 0 }),
+};
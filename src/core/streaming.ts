@@ -0,0 +1,226 @@
+import { AdmeshError, APIError } from './error';
+import { LineDecoder } from '../internal/decoders/line';
+import { ReadableStreamToAsyncIterable } from '../internal/shims';
+import { isAbortError } from '../internal/errors';
+import { isObj, safeJSON } from '../internal/utils/values';
+
+export type ServerSentEvent = {
+  event: string | null;
+  data: string;
+  raw: string[];
+};
+
+/**
+ * An async iterable over the items of a streamed response body.
+ *
+ * Both `text/event-stream` (SSE) and newline-delimited JSON bodies are supported;
+ * use {@link Stream.fromResponse} to pick the right decoder from the `content-type`.
+ */
+export class Stream<Item> implements AsyncIterable<Item> {
+  controller: AbortController;
+
+  constructor(
+    private iterator: () => AsyncIterator<Item>,
+    controller: AbortController,
+  ) {
+    this.controller = controller;
+  }
+
+  static fromResponse<Item>(response: Response, controller: AbortController): Stream<Item> {
+    const contentType = response.headers.get('content-type');
+    const mediaType = contentType?.split(';')[0]?.trim();
+    if (mediaType === 'application/x-ndjson' || mediaType === 'application/jsonl') {
+      return Stream.fromNDJSONResponse(response, controller);
+    }
+    return Stream.fromSSEResponse(response, controller);
+  }
+
+  /**
+   * Parses each SSE message's `data` as JSON. Named events (`event: foo`) whose payload is an
+   * object without a `type` field are tagged with `type: 'foo'`, so servers may use either convention.
+   */
+  static fromSSEResponse<Item>(response: Response, controller: AbortController): Stream<Item> {
+    let consumed = false;
+
+    async function* iterator(): AsyncIterator<Item, any, undefined> {
+      if (consumed) {
+        throw new AdmeshError('Cannot iterate over a consumed stream.');
+      }
+      consumed = true;
+      let done = false;
+      try {
+        for await (const sse of _iterSSEMessages(response, controller)) {
+          if (done) continue;
+
+          if (sse.data.startsWith('[DONE]')) {
+            done = true;
+            continue;
+          }
+
+          if (sse.event === 'error') {
+            const error = safeJSON(sse.data) ?? sse.data;
+            throw new APIError(
+              undefined,
+              error,
+              typeof error === 'string' ? error : undefined,
+              response.headers,
+            );
+          }
+
+          let data;
+          try {
+            data = JSON.parse(sse.data);
+          } catch (e) {
+            console.error(`Could not parse message into JSON:`, sse.data);
+            console.error(`From chunk:`, sse.raw);
+            throw e;
+          }
+
+          if (sse.event && sse.event !== 'message' && isObj(data) && !('type' in data)) {
+            data = { type: sse.event, ...data };
+          }
+
+          yield data;
+        }
+        done = true;
+      } catch (e) {
+        // If the user calls `stream.controller.abort()`, we should exit without throwing.
+        if (isAbortError(e)) return;
+        throw e;
+      } finally {
+        // If the user `break`s, abort the ongoing request.
+        if (!done) controller.abort();
+      }
+    }
+
+    return new Stream(iterator, controller);
+  }
+
+  /**
+   * Parses each non-empty line of the response body as a standalone JSON value.
+   */
+  static fromNDJSONResponse<Item>(response: Response, controller: AbortController): Stream<Item> {
+    let consumed = false;
+
+    async function* iterator(): AsyncIterator<Item, any, undefined> {
+      if (consumed) {
+        throw new AdmeshError('Cannot iterate over a consumed stream.');
+      }
+      consumed = true;
+      let done = false;
+      try {
+        for await (const line of _iterLines(response, controller)) {
+          if (!line.trim()) continue;
+          yield JSON.parse(line);
+        }
+        done = true;
+      } catch (e) {
+        if (isAbortError(e)) return;
+        throw e;
+      } finally {
+        if (!done) controller.abort();
+      }
+    }
+
+    return new Stream(iterator, controller);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<Item> {
+    return this.iterator();
+  }
+}
+
+async function* _iterLines(response: Response, controller: AbortController): AsyncGenerator<string> {
+  if (!response.body) {
+    controller.abort();
+    throw new AdmeshError(`Attempted to iterate over a response with no body`);
+  }
+
+  const lineDecoder = new LineDecoder();
+  const iter = ReadableStreamToAsyncIterable<Uint8Array>(response.body);
+  for await (const chunk of iter) {
+    for (const line of lineDecoder.decode(chunk)) {
+      yield line;
+    }
+  }
+
+  for (const line of lineDecoder.flush()) {
+    yield line;
+  }
+}
+
+export async function* _iterSSEMessages(
+  response: Response,
+  controller: AbortController,
+): AsyncGenerator<ServerSentEvent, void, unknown> {
+  const sseDecoder = new SSEDecoder();
+
+  for await (const line of _iterLines(response, controller)) {
+    const sse = sseDecoder.decode(line);
+    if (sse) yield sse;
+  }
+
+  // A final message may not be followed by a blank line.
+  const sse = sseDecoder.decode('');
+  if (sse) yield sse;
+}
+
+class SSEDecoder {
+  private data: string[];
+  private event: string | null;
+  private chunks: string[];
+
+  constructor() {
+    this.event = null;
+    this.data = [];
+    this.chunks = [];
+  }
+
+  decode(line: string) {
+    if (!line) {
+      // empty line and we didn't previously encounter any messages
+      if (!this.event && !this.data.length) return null;
+
+      const sse: ServerSentEvent = {
+        event: this.event,
+        data: this.data.join('\n'),
+        raw: this.chunks,
+      };
+
+      this.event = null;
+      this.data = [];
+      this.chunks = [];
+
+      return sse;
+    }
+
+    this.chunks.push(line);
+
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    let [fieldname, _, value] = partition(line, ':');
+
+    if (value.startsWith(' ')) {
+      value = value.substring(1);
+    }
+
+    if (fieldname === 'event') {
+      this.event = value;
+    } else if (fieldname === 'data') {
+      this.data.push(value);
+    }
+
+    return null;
+  }
+}
+
+function partition(str: string, delimiter: string): [string, string, string] {
+  const index = str.indexOf(delimiter);
+  if (index !== -1) {
+    return [str.substring(0, index), delimiter, str.substring(index + delimiter.length)];
+  }
+
+  return [str, '', ''];
+}
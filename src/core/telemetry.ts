@@ -0,0 +1,216 @@
+import type { RecommendGetRecommendationsResponse } from '../resources/recommend';
+
+// The subset of the OpenTelemetry API that the client uses. Tracers and meters from
+// `@opentelemetry/api` fit these types, so the package is not a dependency.
+
+export type TelemetryAttributeValue =
+  | string
+  | number
+  | boolean
+  | Array<null | undefined | string>
+  | Array<null | undefined | number>
+  | Array<null | undefined | boolean>;
+
+export type TelemetryAttributes = Record<string, TelemetryAttributeValue | undefined>;
+
+export interface TelemetrySpanContext {
+  traceId: string;
+
+  spanId: string;
+
+  traceFlags: number;
+
+  traceState?: { serialize(): string };
+}
+
+export interface TelemetrySpan {
+  spanContext(): TelemetrySpanContext;
+
+  setAttribute(key: string, value: string | number | boolean): unknown;
+
+  setStatus(status: { code: number; message?: string }): unknown;
+
+  recordException(exception: Error): void;
+
+  end(): void;
+}
+
+export interface TelemetryTracer {
+  startSpan(
+    name: string,
+    options?: {
+      kind?: number;
+      attributes?: TelemetryAttributes;
+      links?: Array<{ context: TelemetrySpanContext }>;
+    },
+  ): TelemetrySpan;
+}
+
+export interface TelemetryMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): { record(value: number, attributes?: TelemetryAttributes): void };
+
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): { add(value: number, attributes?: TelemetryAttributes): void };
+}
+
+export interface TelemetryOptions {
+  /**
+   * Creates a span for every HTTP attempt, e.g. `trace.getTracer('admesh')` or a tracer from your own
+   * `TracerProvider`.
+   */
+  tracer?: TelemetryTracer | undefined;
+
+  /**
+   * Records request and recommendation metrics, e.g. `metrics.getMeter('admesh')` or a meter from
+   * your own `MeterProvider`.
+   */
+  meter?: TelemetryMeter | undefined;
+
+  /**
+   * Send the W3C `traceparent` and `tracestate` headers, so that server-side spans join the trace.
+   * @default true
+   */
+  propagate?: boolean | undefined;
+}
+
+// From the OpenTelemetry API.
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+const INVALID_ID = /^0+$/;
+
+/**
+ * One HTTP attempt being traced and measured.
+ */
+export interface TelemetryAttempt {
+  /**
+   * The attempt's span context, to link retries to.
+   */
+  spanContext: TelemetrySpanContext | undefined;
+
+  /**
+   * Ends the attempt with its response, or the error that prevented one.
+   */
+  end(outcome: Response | Error): void;
+}
+
+/**
+ * Creates OpenTelemetry spans and metrics for the client's requests.
+ */
+export class Telemetry {
+  readonly tracer: TelemetryTracer | undefined;
+  readonly propagate: boolean;
+
+  #duration;
+  #retries;
+  #tokens;
+  #recommendations;
+
+  constructor(options: TelemetryOptions) {
+    this.tracer = options.tracer;
+    this.propagate = options.propagate ?? true;
+
+    const meter = options.meter;
+    this.#duration = meter?.createHistogram('admesh.client.request.duration', {
+      description: 'Duration of HTTP attempts until the response headers arrived.',
+      unit: 's',
+    });
+    this.#retries = meter?.createCounter('admesh.client.request.retries', {
+      description: 'Number of HTTP attempts that were retries.',
+      unit: '{retry}',
+    });
+    this.#tokens = meter?.createCounter('admesh.recommend.tokens', {
+      description: 'Tokens used to generate recommendations, from `tokens_used`.',
+      unit: '{token}',
+    });
+    this.#recommendations = meter?.createHistogram('admesh.recommend.recommendations', {
+      description: 'Number of recommendations per response.',
+      unit: '{recommendation}',
+    });
+  }
+
+  /**
+   * Starts tracing an HTTP attempt, adding the trace context to `headers`.
+   */
+  startAttempt({
+    method,
+    url,
+    headers,
+    requestLogID,
+    retryOfRequestLogID,
+    retryCount,
+    retryOf,
+  }: {
+    method: string;
+    url: string;
+    headers: Headers;
+    requestLogID: string;
+    retryOfRequestLogID: string | undefined;
+    retryCount: number;
+    retryOf: TelemetrySpanContext | undefined;
+  }): TelemetryAttempt {
+    const startTime = Date.now();
+    const { host, pathname } = new URL(url);
+    const attributes: TelemetryAttributes = {
+      'http.request.method': method.toUpperCase(),
+      'server.address': host,
+      'url.path': pathname,
+    };
+
+    const span = this.tracer?.startSpan(`${method.toUpperCase()} ${pathname}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: {
+        ...attributes,
+        'url.full': url,
+        'admesh.request_log_id': requestLogID,
+        ...(retryCount > 0 && { 'http.request.resend_count': retryCount }),
+        ...(retryOfRequestLogID !== undefined && { 'admesh.retry_of_request_log_id': retryOfRequestLogID }),
+      },
+      ...(retryOf && { links: [{ context: retryOf }] }),
+    });
+    const spanContext = span?.spanContext();
+
+    if (this.propagate && spanContext && !INVALID_ID.test(spanContext.traceId)) {
+      const flags = spanContext.traceFlags.toString(16).padStart(2, '0');
+      headers.set('traceparent', `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`);
+      const traceState = spanContext.traceState?.serialize();
+      if (traceState) headers.set('tracestate', traceState);
+    }
+    if (retryCount > 0) this.#retries?.add(1, attributes);
+
+    return {
+      spanContext,
+      end: (outcome) => {
+        const outcomeAttributes = { ...attributes };
+        if (outcome instanceof Error) {
+          outcomeAttributes['error.type'] = outcome.name;
+          span?.recordException(outcome);
+          span?.setStatus({ code: SPAN_STATUS_ERROR, message: outcome.message });
+        } else {
+          outcomeAttributes['http.response.status_code'] = outcome.status;
+          span?.setAttribute('http.response.status_code', outcome.status);
+          if (!outcome.ok) {
+            outcomeAttributes['error.type'] = String(outcome.status);
+            span?.setStatus({ code: SPAN_STATUS_ERROR });
+          }
+        }
+        span?.end();
+        this.#duration?.record((Date.now() - startTime) / 1000, outcomeAttributes);
+      },
+    };
+  }
+
+  /**
+   * Records the token usage and recommendation count of a recommendation response.
+   */
+  recordRecommendResponse(response: RecommendGetRecommendationsResponse): void {
+    const attributes: TelemetryAttributes =
+      response.model_used ? { 'admesh.model': response.model_used } : {};
+    if (typeof response.tokens_used === 'number') this.#tokens?.add(response.tokens_used, attributes);
+    this.#recommendations?.record(response.response?.recommendations?.length ?? 0, attributes);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * How API responses are checked against their schema:
+ * - `'strict'` throws a `ResponseValidationError` if anything doesn't match;
+ * - `'warn'` logs a warning and drops what doesn't match, such as invalid recommendations;
+ * - `'off'` returns responses as they are.
+ */
+export type ResponseValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * A value that doesn't match the schema.
+ */
+export interface ValidationIssue {
+  /**
+   * Where the value is, as a JSON path, e.g. `$.response.recommendations[0].admesh_link`.
+   */
+  path: string;
+
+  message: string;
+}
+
+const INVALID: unique symbol = Symbol('invalid');
+
+/**
+ * Checks a value, coercing it where the schema allows. Returns the checked value, or `INVALID` after
+ * adding an issue.
+ */
+export type Validator<T> = ((
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+) => T | typeof INVALID) & {
+  optional?: boolean;
+  nullable?: boolean;
+};
+
+type OptionalValidator<T> = Validator<T | undefined> & { optional: true };
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+type Shape = Record<string, Validator<unknown>>;
+
+type InferObject<S extends Shape> = {
+  [K in keyof S as S[K] extends { optional: true } ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as S[K] extends { optional: true } ? K : never]?: Exclude<Infer<S[K]>, undefined>;
+};
+
+function describe(value: unknown): string {
+  return (
+    value === null ? 'null'
+    : Array.isArray(value) ? 'an array'
+    : typeof value === 'object' ? 'an object'
+    : typeof value
+  );
+}
+
+function fail(issues: ValidationIssue[], path: string, expected: string, value: unknown): typeof INVALID {
+  issues.push({ path, message: `expected ${expected}, received ${describe(value)}` });
+  return INVALID;
+}
+
+/**
+ * A string. With `coerce`, numbers are accepted and converted, e.g. for IDs sent as numbers.
+ */
+export function string({ coerce = false }: { coerce?: boolean } = {}): Validator<string> {
+  return (value, path, issues) => {
+    if (typeof value === 'string') return value;
+    if (coerce && typeof value === 'number' && Number.isFinite(value)) return String(value);
+    return fail(issues, path, 'a string', value);
+  };
+}
+
+/**
+ * A finite number. With `coerce`, numeric strings are accepted and converted.
+ */
+export function number({ coerce = false }: { coerce?: boolean } = {}): Validator<number> {
+  return (value, path, issues) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (coerce && typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+      return Number(value);
+    }
+    return fail(issues, path, 'a number', value);
+  };
+}
+
+/**
+ * A boolean. With `coerce`, `'true'` and `'false'` are accepted and converted.
+ */
+export function boolean({ coerce = false }: { coerce?: boolean } = {}): Validator<boolean> {
+  return (value, path, issues) => {
+    if (typeof value === 'boolean') return value;
+    if (coerce && (value === 'true' || value === 'false')) return value === 'true';
+    return fail(issues, path, 'a boolean', value);
+  };
+}
+
+/**
+ * An array. Invalid items are dropped, so that one bad item doesn't invalidate the others.
+ */
+export function array<T>(item: Validator<T>): Validator<Array<T>> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) return fail(issues, path, 'an array', value);
+    const items: T[] = [];
+    value.forEach((element, index) => {
+      const checked = item(element, `${path}[${index}]`, issues);
+      if (checked !== INVALID) items.push(checked);
+    });
+    return items;
+  };
+}
+
+/**
+ * An object with string keys and values of one type. Invalid entries are dropped.
+ */
+export function record<T>(values: Validator<T>): Validator<Record<string, T>> {
+  return (value, path, issues) => {
+    if (!isObject(value)) return fail(issues, path, 'an object', value);
+    const entries: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const checked = values(entry, propertyPath(path, key), issues);
+      if (checked !== INVALID) entries[key] = checked;
+    }
+    return entries;
+  };
+}
+
+/**
+ * An object with the given properties. Properties not in the schema are kept as they are.
+ *
+ * The object is invalid if a required property is; an invalid optional property is dropped.
+ */
+export function object<S extends Shape>(shape: S): Validator<InferObject<S>> {
+  return (value, path, issues) => {
+    if (!isObject(value)) return fail(issues, path, 'an object', value);
+    const result: Record<string, unknown> = { ...value };
+    let valid = true;
+    for (const [key, property] of Object.entries(shape)) {
+      const checked = property(value[key], propertyPath(path, key), issues);
+      if (checked === INVALID) {
+        if (!property.optional) valid = false;
+        delete result[key];
+      } else if (checked === undefined) {
+        delete result[key];
+      } else {
+        result[key] = checked;
+      }
+    }
+    return valid ? (result as InferObject<S>) : INVALID;
+  };
+}
+
+/**
+ * Allows the property to be missing. Unless the property is `nullable`, `null` counts as missing,
+ * since the API sends it for unset fields.
+ */
+export function optional<T>(validator: Validator<T>): OptionalValidator<T> {
+  const check: Validator<T | undefined> = (value, path, issues) =>
+    value === undefined || (value === null && !validator.nullable) ?
+      undefined
+    : validator(value, path, issues);
+  return Object.assign(check, { optional: true as const });
+}
+
+/**
+ * Allows `null`.
+ */
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  const check: Validator<T | null> = (value, path, issues) =>
+    value === null ? null : validator(value, path, issues);
+  return Object.assign(check, { nullable: true });
+}
+
+/**
+ * Checks a value against a schema.
+ *
+ * @returns the checked value, with coerced fields converted and invalid values dropped, or
+ * `undefined` if the value itself is invalid; and the issues found.
+ */
+export function validate<T>(
+  validator: Validator<T>,
+  value: unknown,
+): { value: T | undefined; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const checked = validator(value, '$', issues);
+  return { value: checked === INVALID ? undefined : checked, issues };
+}
+
+function propertyPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
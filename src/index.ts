@@ -4,7 +4,53 @@ export { Admesh as default } from './client';
 
 export { type Uploadable, toFile } from './core/uploads';
 export { APIPromise } from './core/api-promise';
+export { Stream } from './core/streaming';
 export { Admesh, type ClientOptions } from './client';
+export { type Middleware, type MiddlewareNext, type MiddlewareRequest } from './core/middleware';
+export { LRUCacheStore, type CacheOptions, type CacheStore, type CachedResponse } from './core/cache';
+export {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+  type FailureClass,
+} from './core/circuit-breaker';
+export { RateLimiter, ConcurrencyLimiter, type RateLimiterOptions } from './core/rate-limiter';
+export {
+  retryPolicies,
+  StandardRetryPolicy,
+  RetryBudget,
+  type RetryPolicy,
+  type RetryAttempt,
+  type StandardRetryPolicyOptions,
+  type RetryBudgetOptions,
+} from './core/retry-policy';
+export {
+  Telemetry,
+  type TelemetryOptions,
+  type TelemetryTracer,
+  type TelemetryMeter,
+  type TelemetrySpan,
+  type TelemetrySpanContext,
+  type TelemetryAttributes,
+  type TelemetryAttributeValue,
+} from './core/telemetry';
+export { LogRedactor, type LogFormat, type LogRedactionOptions } from './core/logging';
+export { type ResponseValidationMode, type ValidationIssue } from './core/validation';
+export {
+  Session,
+  InMemorySessionStore,
+  KeyValueSessionStore,
+  type SessionState,
+  type SessionStore,
+  type KeyValueStore,
+  type SessionCreateParams,
+} from './resources/sessions';
+export {
+  type TrackingOptions,
+  type TrackingEvent,
+  type TrackingEventParams,
+  type TrackingConversionParams,
+} from './resources/tracking';
 export {
   AdmeshError,
   APIError,
@@ -20,5 +66,79 @@ export {
   PermissionDeniedError,
   UnprocessableEntityError,
   NoRecommendationsError,
+  SessionEndedError,
+  CircuitOpenError,
+  ResponseValidationError,
 } from './core/error';
-export { sanitizeAndBuild, sanitizeUserInput, type SanitizeAndBuildResult } from './sanitize-and-build';
+export {
+  sanitizeAndBuild,
+  sanitizeUserInput,
+  type SanitizeAndBuildResult,
+  type SanitizeAndBuildOptions,
+  type PIIEntity,
+  type PIIEntityType,
+  type RedactionPolicy,
+  type RedactionStrategy,
+} from './sanitize-and-build';
+export { PseudonymVault, type PseudonymVaultOptions } from './vault';
+export { RecommendationStream, type RecommendationStreamOptions } from './lib/recommendation-stream';
+export {
+  toFollowupChips,
+  type FollowupChip,
+  type FollowupChipSegment,
+  type FollowupChipOptions,
+} from './lib/followup-chips';
+export {
+  formatRecommendations,
+  DEFAULT_DISCLOSURE,
+  type RecommendationFormat,
+  type FormatRecommendationsOptions,
+} from './lib/format-recommendations';
+export {
+  weaveCitations,
+  type Citation,
+  type WeaveCitationsOptions,
+  type WeaveCitationsResult,
+} from './lib/citations';
+export {
+  RECOMMEND_TOOL_NAME,
+  RECOMMEND_TOOL_DESCRIPTION,
+  recommendToolSchema,
+  parseRecommendToolInput,
+  formatToolResult,
+  runRecommendTool,
+  sanitizeRecommendToolInput,
+  type RecommendToolInput,
+  type ToolResultOptions,
+  type RunRecommendToolOptions,
+} from './lib/tools/recommend-tool';
+export {
+  openAITools,
+  handleOpenAIToolCalls,
+  type OpenAIFunctionTool,
+  type OpenAIToolCall,
+  type OpenAIToolMessage,
+  type OpenAIToolsOptions,
+} from './lib/tools/openai';
+export {
+  anthropicTools,
+  handleAnthropicToolUse,
+  type AnthropicTool,
+  type AnthropicToolUseBlock,
+  type AnthropicToolResultBlock,
+} from './lib/tools/anthropic';
+export {
+  AdmeshMCPServer,
+  runStdioServer,
+  type MCPServerOptions,
+  type StdioServerOptions,
+} from './lib/mcp-server';
+export {
+  FileOutboxStorage,
+  LocalStorageOutboxStorage,
+  IndexedDBOutboxStorage,
+  MemoryOutboxStorage,
+  type OutboxStorage,
+  type OutboxState,
+  type OutboxBatch,
+} from './lib/outbox';
@@ -0,0 +1,41 @@
+import { tool } from 'ai';
+import type { Admesh } from '../client';
+import {
+  RECOMMEND_TOOL_DESCRIPTION,
+  runRecommendTool,
+  type RunRecommendToolOptions,
+} from '../lib/tools/recommend-tool';
+import { recommendToolInputSchema } from './schema';
+
+export { recommendToolInputSchema };
+
+/**
+ * A Vercel AI SDK tool which fetches AdMesh recommendations.
+ *
+ * The model's input is sanitized with `sanitizeAndBuild` before it is sent (unless
+ * `sanitize: false`), and the tool returns a compact text summary of the response.
+ *
+ * @example
+ * ```ts
+ * import { recommendationsTool } from 'admesh/integrations/ai-sdk';
+ *
+ * const result = await generateText({
+ *   model,
+ *   prompt,
+ *   tools: { get_recommendations: recommendationsTool(client) },
+ * });
+ * ```
+ */
+export function recommendationsTool(client: Admesh, options: RunRecommendToolOptions = {}) {
+  return tool({
+    description: RECOMMEND_TOOL_DESCRIPTION,
+    inputSchema: recommendToolInputSchema,
+    execute: async (input, { abortSignal }) => {
+      const { content } = await runRecommendTool(client, input, {
+        ...options,
+        requestOptions: { ...options.requestOptions, ...(abortSignal && { signal: abortSignal }) },
+      });
+      return content;
+    },
+  });
+}
@@ -0,0 +1,72 @@
+import { StructuredTool, type ToolParams } from '@langchain/core/tools';
+import type { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import type { z } from 'zod';
+import type { Admesh } from '../client';
+import {
+  RECOMMEND_TOOL_DESCRIPTION,
+  RECOMMEND_TOOL_NAME,
+  runRecommendTool,
+  type RunRecommendToolOptions,
+} from '../lib/tools/recommend-tool';
+import { recommendToolInputSchema } from './schema';
+
+export { recommendToolInputSchema };
+
+export interface AdmeshRecommendationsToolParams extends ToolParams, RunRecommendToolOptions {
+  client: Admesh;
+}
+
+/**
+ * A LangChain.js tool which fetches AdMesh recommendations.
+ *
+ * The model's input is sanitized with `sanitizeAndBuild` before it is sent (unless
+ * `sanitize: false`), and the tool returns a compact text summary of the response.
+ *
+ * @example
+ * ```ts
+ * import { AdmeshRecommendationsTool } from 'admesh/integrations/langchain';
+ *
+ * const model = new ChatOpenAI({ model: 'gpt-4o' }).bindTools([new AdmeshRecommendationsTool({ client })]);
+ * ```
+ */
+export class AdmeshRecommendationsTool extends StructuredTool<typeof recommendToolInputSchema> {
+  static override lc_name() {
+    return 'AdmeshRecommendationsTool';
+  }
+
+  name = RECOMMEND_TOOL_NAME;
+
+  description = RECOMMEND_TOOL_DESCRIPTION;
+
+  schema = recommendToolInputSchema;
+
+  #client: Admesh;
+  #options: RunRecommendToolOptions;
+
+  constructor({
+    client,
+    params,
+    sanitize,
+    requestOptions,
+    maxRecommendations,
+    maxLength,
+    ...fields
+  }: AdmeshRecommendationsToolParams) {
+    super(fields);
+    this.#client = client;
+    this.#options = { params, sanitize, requestOptions, maxRecommendations, maxLength };
+  }
+
+  protected async _call(
+    input: z.output<typeof recommendToolInputSchema>,
+    _runManager?: CallbackManagerForToolRun,
+    config?: RunnableConfig,
+  ): Promise<string> {
+    const { content } = await runRecommendTool(this.#client, input, {
+      ...this.#options,
+      requestOptions: { ...this.#options.requestOptions, ...(config?.signal && { signal: config.signal }) },
+    });
+    return content;
+  }
+}
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { RECOMMEND_TOOL_PROPERTIES as PROPERTIES } from '../lib/tools/recommend-tool';
+
+/**
+ * The zod counterpart of `recommendToolSchema()`, for frameworks that take zod schemas.
+ */
+export const recommendToolInputSchema = z.object({
+  query: z.string().min(1).describe(PROPERTIES.query.description),
+  previous_query: z.string().nullish().describe(PROPERTIES.previous_query.description),
+  previous_summary: z.string().nullish().describe(PROPERTIES.previous_summary.description),
+  session_id: z.string().nullish().describe(PROPERTIES.session_id.description),
+});
+
+export type RecommendToolInputSchema = typeof recommendToolInputSchema;
@@ -0,0 +1,48 @@
+/**
+ * A re-implementation of httpx's `LineDecoder` in TypeScript.
+ *
+ * Splits a stream of text chunks into lines, handling `\n`, `\r` and `\r\n`
+ * line endings that may be split across chunk boundaries.
+ */
+export class LineDecoder {
+  #buffer: string = '';
+  #trailingCR: boolean = false;
+  #textDecoder: { decode(input?: Uint8Array, options?: { stream?: boolean }): string } | undefined;
+
+  decode(chunk: Uint8Array | string): string[] {
+    let text = typeof chunk === 'string' ? chunk : this.decodeBytes(chunk);
+
+    if (this.#trailingCR) {
+      // The previous chunk ended with `\r`; if this one starts with `\n` it is part of the same line ending.
+      if (text.startsWith('\n')) text = text.slice(1);
+      this.#trailingCR = false;
+    }
+
+    if (!text) {
+      return [];
+    }
+
+    if (text.endsWith('\r')) {
+      this.#trailingCR = true;
+      text = text.slice(0, -1);
+      text += '\n';
+    }
+
+    const lines = (this.#buffer + text).split(/\r\n|[\n\r]/);
+    this.#buffer = lines.pop() ?? '';
+    return lines;
+  }
+
+  flush(): string[] {
+    const tail = this.#textDecoder?.decode() ?? '';
+    const remaining = this.#buffer + tail;
+    this.#buffer = '';
+    this.#trailingCR = false;
+    return remaining ? [remaining] : [];
+  }
+
+  private decodeBytes(bytes: Uint8Array): string {
+    this.#textDecoder ??= new (globalThis as any).TextDecoder('utf8');
+    return this.#textDecoder!.decode(bytes, { stream: true });
+  }
+}
@@ -13,12 +13,12 @@ export const isRunningInBrowser = () => {
   );
 };
 
-type DetectedPlatform = 'deno' | 'node' | 'edge' | 'unknown';
+export type DetectedPlatform = 'deno' | 'node' | 'edge' | 'unknown';
 
 /**
  * Note this does not detect 'browser'; for that, use getBrowserInfo().
  */
-function getDetectedPlatform(): DetectedPlatform {
+export function getDetectedPlatform(): DetectedPlatform {
   if (typeof Deno !== 'undefined' && Deno.build != null) {
     return 'deno';
   }
@@ -3,6 +3,9 @@
 import type { FinalRequestOptions } from './request-options';
 import { type Admesh } from '../client';
 import { formatRequestDetails, loggerFor } from './utils/log';
+import { Stream } from '../core/streaming';
+import { ResponseValidationError } from '../core/error';
+import { validate } from '../core/validation';
 
 export type APIResponseProps = {
   response: Response;
@@ -15,7 +18,23 @@ export type APIResponseProps = {
 
 export async function defaultParseResponse<T>(client: Admesh, props: APIResponseProps): Promise<T> {
   const { response, requestLogID, retryOfRequestLogID, startTime } = props;
-  const body = await (async () => {
+  if (props.options.stream) {
+    loggerFor(client).debug(
+      `[${requestLogID}] response stream started`,
+      formatRequestDetails({
+        retryOfRequestLogID,
+        url: response.url,
+        status: response.status,
+        headers: response.headers,
+        durationMs: Date.now() - startTime,
+      }),
+    );
+    // Note: there is an invariant here that isn't represented in the type system
+    // that if you set `stream: true` the response type must also be `Stream<T>`
+    return Stream.fromResponse(response, props.controller) as any;
+  }
+
+  let body = await (async () => {
     // fetch refuses to read the body when the status code is 204.
     if (response.status === 204) {
       return null as T;
@@ -36,6 +55,20 @@ export async function defaultParseResponse<T>(client: Admesh, props: APIResponse
     const text = await response.text();
     return text as unknown as T;
   })();
+
+  const schema = props.options.__schema;
+  const validation = client.responseValidation;
+  if (schema && validation !== 'off') {
+    const { value, issues } = validate(schema, body);
+    if (issues.length) {
+      if (validation === 'strict') throw new ResponseValidationError({ issues });
+      loggerFor(client).warn(`[${requestLogID}] response didn't match its schema; dropped invalid values`, {
+        issues,
+      });
+    }
+    if (value !== undefined) body = value as Awaited<T>;
+  }
+
   loggerFor(client).debug(
     `[${requestLogID}] response parsed`,
     formatRequestDetails({
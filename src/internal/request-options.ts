@@ -5,6 +5,8 @@ import { NullableHeaders } from './headers';
 import type { BodyInit } from './builtin-types';
 import type { HTTPMethod, MergedRequestInit } from './types';
 import { type HeadersLike } from './headers';
+import type { RetryPolicy } from '../core/retry-policy';
+import type { Validator } from '../core/validation';
 
 export type FinalRequestOptions = RequestOptions & { method: HTTPMethod; path: string };
 
@@ -21,7 +23,26 @@ export type RequestOptions = {
   signal?: AbortSignal | undefined | null;
   idempotencyKey?: string;
 
+  /**
+   * Set to `'no-store'` to skip the client's response cache for this request.
+   */
+  cache?: 'default' | 'no-store' | undefined;
+
+  /**
+   * Overrides the client's `retryPolicy` for this request.
+   */
+  retryPolicy?: RetryPolicy | undefined;
+
+  /**
+   * If no response has arrived after this many milliseconds, send an identical request and use
+   * whichever response arrives first. Only use it for requests that are safe to send twice.
+   */
+  hedgeAfter?: number | undefined;
+
   __binaryResponse?: boolean | undefined;
+  __cacheKey?: string | undefined;
+  __hedgeable?: boolean | undefined;
+  __schema?: Validator<unknown> | undefined;
 };
 
 export type EncodedContent = { bodyHeaders: HeadersLike; body: BodyInit };
@@ -3,6 +3,7 @@
 import { hasOwn } from './values';
 import { type Admesh } from '../../client';
 import { RequestOptions } from '../request-options';
+import { type LogFormat, type LogRedactor, formatLogRecord } from '../../core/logging';
 
 type LogFn = (message: string, ...rest: unknown[]) => void;
 export type Logger = {
@@ -42,9 +43,22 @@ export const parseLogLevel = (
 
 function noop() {}
 
-function makeLogFn(fnLevel: keyof Logger, logger: Logger | undefined, logLevel: LogLevel) {
+function makeLogFn(
+  fnLevel: keyof Logger,
+  logger: Logger | undefined,
+  logLevel: LogLevel,
+  logFormat: LogFormat,
+  redactor: LogRedactor | undefined,
+): LogFn {
   if (!logger || levelNumbers[fnLevel] > levelNumbers[logLevel]) {
     return noop;
+  } else if (logFormat === 'json') {
+    return (message, ...rest) =>
+      logger[fnLevel](
+        formatLogRecord(fnLevel, message, redactor ? rest.map((arg) => redactor.redact(arg)) : rest),
+      );
+  } else if (redactor) {
+    return (message, ...rest) => logger[fnLevel](message, ...rest.map((arg) => redactor.redact(arg)));
   } else {
     // Don't wrap logger functions, we want the stacktrace intact!
     return logger[fnLevel].bind(logger);
@@ -58,28 +72,35 @@ const noopLogger = {
   debug: noop,
 };
 
-let cachedLoggers = new WeakMap<Logger, [LogLevel, Logger]>();
+let cachedLoggers = new WeakMap<Logger, [LogLevel, LogFormat, LogRedactor | undefined, Logger]>();
 
 export function loggerFor(client: Admesh): Logger {
   const logger = client.logger;
   const logLevel = client.logLevel ?? 'off';
+  const logFormat = client.logFormat ?? 'text';
+  const redactor = client.logRedactor;
   if (!logger) {
     return noopLogger;
   }
 
   const cachedLogger = cachedLoggers.get(logger);
-  if (cachedLogger && cachedLogger[0] === logLevel) {
-    return cachedLogger[1];
+  if (
+    cachedLogger &&
+    cachedLogger[0] === logLevel &&
+    cachedLogger[1] === logFormat &&
+    cachedLogger[2] === redactor
+  ) {
+    return cachedLogger[3];
   }
 
   const levelLogger = {
-    error: makeLogFn('error', logger, logLevel),
-    warn: makeLogFn('warn', logger, logLevel),
-    info: makeLogFn('info', logger, logLevel),
-    debug: makeLogFn('debug', logger, logLevel),
+    error: makeLogFn('error', logger, logLevel, logFormat, redactor),
+    warn: makeLogFn('warn', logger, logLevel, logFormat, redactor),
+    info: makeLogFn('info', logger, logLevel, logFormat, redactor),
+    debug: makeLogFn('debug', logger, logLevel, logFormat, redactor),
   };
 
-  cachedLoggers.set(logger, [logLevel, levelLogger]);
+  cachedLoggers.set(logger, [logLevel, logFormat, redactor, levelLogger]);
 
   return levelLogger;
 }
@@ -99,6 +120,7 @@ export const formatRequestDetails = (details: {
   if (details.options) {
     details.options = { ...details.options };
     delete details.options['headers']; // redundant + leaks internals
+    delete details.options.__cacheKey; // repeats the body, unredacted
   }
   if (details.headers) {
     details.headers = Object.fromEntries(
@@ -0,0 +1,277 @@
+import type { RecommendGetRecommendationsResponse } from '../resources/recommend';
+import { followupLinkFor } from './followup-chips';
+import { escapeMarkdownLinkText, escapeMarkdownURL, safeLinkURL } from './html';
+
+type Recommendation = RecommendGetRecommendationsResponse.Response.Recommendation;
+
+export interface WeaveCitationsOptions {
+  /**
+   * How many mentions of each product to link; later mentions are left as plain text.
+   * @default 1
+   */
+  maxLinksPerProduct?: number | undefined;
+
+  /**
+   * Also match single-word names with one typo, e.g. "Hubspt" for "HubSpot". Off by default, as
+   * it also matches other words, e.g. "strips" for "Stripe". Matching always ignores case and
+   * separators, so "hubspot-crm" and "HubSpot CRM" are the same name.
+   * @default false
+   */
+  fuzzy?: boolean | undefined;
+
+  /**
+   * Add a footnote marker after each linked mention and the footnote definitions at the end.
+   * @default true
+   */
+  footnotes?: boolean | undefined;
+}
+
+export interface Citation {
+  /**
+   * The footnote number, in order of first mention.
+   */
+  index: number;
+
+  title: string;
+
+  /**
+   * The tracked link the mentions were replaced with.
+   */
+  href: string;
+
+  /**
+   * How many mentions were linked.
+   */
+  mentions: number;
+
+  /**
+   * The recommendation the product came from; unset for products only mentioned in follow-up
+   * suggestions.
+   */
+  recommendation?: Recommendation;
+}
+
+export interface WeaveCitationsResult {
+  text: string;
+
+  /**
+   * The products that were linked, in footnote order.
+   */
+  citations: Array<Citation>;
+}
+
+interface Product {
+  title: string;
+  href: string;
+  names: string[];
+  recommendation?: Recommendation;
+}
+
+interface Match {
+  start: number;
+  end: number;
+  product: Product;
+}
+
+/**
+ * Links product mentions in an LLM answer to their tracked `admesh_link`, with markdown
+ * footnote citations.
+ *
+ * Products are recognised by `Recommendation.title` or `slug`, and by the follow-up
+ * suggestions' `product_mentions`. Only `http:` and `https:` links are used. Text inside code
+ * blocks, inline code, existing links and URLs is never rewritten.
+ *
+ * @example
+ * ```ts
+ * const { text, citations } = weaveCitations(answer, response);
+ * // text === 'Try [HubSpot](https://useadmesh.com/...)[^1] ...\n\n[^1]: [HubSpot](https://useadmesh.com/...)'
+ * ```
+ */
+export function weaveCitations(
+  answer: string,
+  response: RecommendGetRecommendationsResponse,
+  options: WeaveCitationsOptions = {},
+): WeaveCitationsResult {
+  const products = collectProducts(response);
+  const protectedRanges = findProtectedRanges(answer);
+  const isProtected = (start: number, end: number) =>
+    protectedRanges.some((range) => start < range.end && end > range.start);
+
+  const candidates: Match[] = [];
+  for (const product of products) {
+    for (const name of product.names) {
+      for (const match of answer.matchAll(namePattern(name))) {
+        candidates.push({ start: match.index!, end: match.index! + match[0].length, product });
+      }
+    }
+  }
+  if (options.fuzzy) {
+    candidates.push(...fuzzyMatches(answer, products));
+  }
+  // Earliest first, then longest, so that "HubSpot CRM" wins over "HubSpot".
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const maxLinks = options.maxLinksPerProduct ?? 1;
+  const citations = new Map<Product, Citation>();
+  const matches: Match[] = [];
+  let lastEnd = 0;
+  for (const candidate of candidates) {
+    if (candidate.start < lastEnd || isProtected(candidate.start, candidate.end)) continue;
+    let citation = citations.get(candidate.product);
+    if ((citation?.mentions ?? 0) >= maxLinks) continue;
+    if (!citation) {
+      citation = {
+        index: citations.size + 1,
+        title: candidate.product.title,
+        href: candidate.product.href,
+        mentions: 0,
+        ...(candidate.product.recommendation ? { recommendation: candidate.product.recommendation } : {}),
+      };
+      citations.set(candidate.product, citation);
+    }
+    citation.mentions++;
+    matches.push(candidate);
+    lastEnd = candidate.end;
+  }
+
+  const footnotes = options.footnotes ?? true;
+  let text = '';
+  let cursor = 0;
+  for (const match of matches) {
+    const citation = citations.get(match.product)!;
+    const mention = answer.slice(match.start, match.end);
+    text += answer.slice(cursor, match.start);
+    text += `[${escapeMarkdownLinkText(mention)}](${escapeMarkdownURL(citation.href)})`;
+    if (footnotes) text += `[^${citation.index}]`;
+    cursor = match.end;
+  }
+  text += answer.slice(cursor);
+
+  if (footnotes && citations.size) {
+    const definitions = [...citations.values()].map(
+      (citation) =>
+        `[^${citation.index}]: [${escapeMarkdownLinkText(citation.title)}](${escapeMarkdownURL(citation.href)})`,
+    );
+    text = `${text.trimEnd()}\n\n${definitions.join('\n')}`;
+  }
+
+  return { text, citations: [...citations.values()] };
+}
+
+function collectProducts(response: RecommendGetRecommendationsResponse): Product[] {
+  const products: Product[] = [];
+  for (const recommendation of response.response?.recommendations ?? []) {
+    const href = safeLinkURL(recommendation.admesh_link);
+    if (!href) continue;
+    products.push({
+      title: recommendation.title,
+      href,
+      names: [recommendation.title, recommendation.slug].filter((name): name is string => !!name?.trim()),
+      recommendation,
+    });
+  }
+
+  const isKnown = (name: string) =>
+    products.some((product) => product.names.some((known) => normalizeName(known) === normalizeName(name)));
+  for (const suggestion of response.response?.followup_suggestions ?? []) {
+    for (const mention of suggestion.product_mentions ?? []) {
+      const href = safeLinkURL(followupLinkFor(suggestion, mention));
+      if (!href || !mention.trim() || isKnown(mention)) continue;
+      products.push({ title: mention, href, names: [mention] });
+    }
+  }
+  return products;
+}
+
+function nameTokens(name: string): string[] {
+  return name.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function normalizeName(name: string): string {
+  return nameTokens(name).join('');
+}
+
+/**
+ * Matches a name regardless of case and of the separators between its words.
+ */
+function namePattern(name: string): RegExp {
+  const tokens = nameTokens(name).map((token) => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (!tokens.length) return /(?!)/g;
+  return new RegExp(`(?<![\\p{L}\\p{N}])${tokens.join('[\\s\\-_.]*')}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+/**
+ * Matches words within one edit of a single-word product name. Short names are skipped, as are
+ * words that start with a different letter, to keep false positives down.
+ */
+function fuzzyMatches(answer: string, products: Product[]): Match[] {
+  const matches: Match[] = [];
+  for (const word of answer.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const candidate = word[0].toLowerCase();
+    for (const product of products) {
+      const close = product.names.some((name) => {
+        const tokens = nameTokens(name);
+        return (
+          tokens.length === 1 &&
+          tokens[0]!.length >= 6 &&
+          tokens[0]![0] === candidate[0] &&
+          withinOneEdit(tokens[0]!, candidate)
+        );
+      });
+      if (close) matches.push({ start: word.index!, end: word.index! + word[0].length, product });
+    }
+  }
+  return matches;
+}
+
+function withinOneEdit(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  if (a.length === b.length) return a.slice(i + 1) === b.slice(i + 1);
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1);
+}
+
+/**
+ * Finds the parts of a markdown document that must not be rewritten: fenced code blocks,
+ * inline code, links and images, autolinks, bare URLs and HTML anchors.
+ */
+function findProtectedRanges(text: string): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  let offset = 0;
+  let fence: { marker: string; start: number } | null = null;
+  for (const line of text.split('\n')) {
+    const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+    if (fence) {
+      if (marker && marker[0] === fence.marker[0] && marker.length >= fence.marker.length) {
+        ranges.push({ start: fence.start, end: offset + line.length });
+        fence = null;
+      }
+    } else if (marker) {
+      fence = { marker, start: offset };
+    }
+    offset += line.length + 1;
+  }
+  if (fence) ranges.push({ start: fence.start, end: text.length });
+
+  const patterns = [
+    /(`+)[\s\S]*?\1/g,
+    /!?\[(?:[^[\]\n]|\[[^[\]\n]*\])*\](?:\([^)\n]*\)|\[[^\]\n]*\])?/g,
+    /<[a-z][a-z0-9+.-]*:[^\s>]*>/gi,
+    /\b(?:https?:\/\/|www\.)[^\s<>()]+/gi,
+    /<a\b[\s\S]*?<\/a>/gi,
+  ];
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      // Inline code and links inside a code block are part of the block.
+      if (!ranges.some((range) => start >= range.start && end <= range.end)) {
+        ranges.push({ start, end });
+      }
+    }
+  }
+  return ranges;
+}
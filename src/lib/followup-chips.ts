@@ -0,0 +1,161 @@
+import type { RecommendGetRecommendationsResponse } from '../resources/recommend';
+import { escapeHTML, escapeMarkdownLinkText, escapeMarkdownURL, safeLinkURL } from './html';
+
+type FollowupSuggestion = RecommendGetRecommendationsResponse.FollowupSuggestion;
+
+/**
+ * A piece of a chip label; product mentions carry their tracked link.
+ */
+export interface FollowupChipSegment {
+  text: string;
+
+  /**
+   * The tracked `admesh_link` for the product mentioned in `text`. Only `http:` and `https:`
+   * links are used; a mention with any other link is left as plain text.
+   */
+  href?: string;
+
+  /**
+   * The product mention this segment matched.
+   */
+  product?: string;
+}
+
+export interface FollowupChip {
+  /**
+   * The plain label text.
+   */
+  label: string;
+
+  /**
+   * The label with product mentions replaced by links, in the requested `linkFormat`.
+   */
+  text: string;
+
+  /**
+   * The label split into plain and linked segments, for custom rendering.
+   */
+  segments: Array<FollowupChipSegment>;
+
+  /**
+   * The query to send when the chip is selected.
+   */
+  query: string;
+
+  suggestion: FollowupSuggestion;
+}
+
+export interface FollowupChipOptions {
+  /**
+   * How to render links in `FollowupChip.text`.
+   * @default 'markdown'
+   */
+  linkFormat?: 'markdown' | 'html';
+
+  /**
+   * Link each product only at its first mention in a label.
+   * @default true
+   */
+  firstMentionOnly?: boolean;
+}
+
+/**
+ * Turns follow-up suggestions into UI-ready chips, substituting each product mention in the
+ * label with the suggestion's tracked `admesh_links` entry.
+ *
+ * Suggestions with neither a `label` nor a `query` are skipped.
+ *
+ * @example
+ * ```ts
+ * const chips = toFollowupChips(response.response?.followup_suggestions ?? []);
+ * // chips[0].text === 'Compare [HubSpot](https://useadmesh.com/...) with Salesforce'
+ * ```
+ */
+export function toFollowupChips(
+  suggestions: ReadonlyArray<FollowupSuggestion>,
+  options: FollowupChipOptions = {},
+): FollowupChip[] {
+  const chips: FollowupChip[] = [];
+  for (const suggestion of suggestions) {
+    const label = suggestion.label ?? suggestion.query;
+    const query = suggestion.query ?? suggestion.label;
+    if (!label || !query) continue;
+
+    const segments = splitMentions(label, suggestion, options.firstMentionOnly ?? true);
+    chips.push({
+      label,
+      text: segments.map((segment) => renderSegment(segment, options.linkFormat ?? 'markdown')).join(''),
+      segments,
+      query,
+      suggestion,
+    });
+  }
+  return chips;
+}
+
+function splitMentions(label: string, suggestion: FollowupSuggestion, firstMentionOnly: boolean) {
+  const linkFor = (product: string) => safeLinkURL(followupLinkFor(suggestion, product));
+
+  // Longest first, so that "HubSpot CRM" wins over "HubSpot".
+  const products = [
+    ...new Set([...(suggestion.product_mentions ?? []), ...Object.keys(suggestion.admesh_links ?? {})]),
+  ]
+    .filter((product) => product.trim() && linkFor(product))
+    .sort((a, b) => b.length - a.length);
+
+  const matches: Array<{ start: number; end: number; product: string }> = [];
+  const haystack = label.toLowerCase();
+  for (const product of products) {
+    const needle = product.toLowerCase();
+    let index = haystack.indexOf(needle);
+    while (index !== -1) {
+      const end = index + needle.length;
+      if (isWordBoundary(label, index, end) && !matches.some((m) => index < m.end && end > m.start)) {
+        matches.push({ start: index, end, product });
+        if (firstMentionOnly) break;
+      }
+      index = haystack.indexOf(needle, end);
+    }
+  }
+  matches.sort((a, b) => a.start - b.start);
+
+  const segments: FollowupChipSegment[] = [];
+  let cursor = 0;
+  for (const match of matches) {
+    if (match.start > cursor) segments.push({ text: label.slice(cursor, match.start) });
+    segments.push({
+      text: label.slice(match.start, match.end),
+      href: linkFor(match.product)!,
+      product: match.product,
+    });
+    cursor = match.end;
+  }
+  if (cursor < label.length) segments.push({ text: label.slice(cursor) });
+  return segments;
+}
+
+/**
+ * Looks up the tracked link for a product mention, ignoring case.
+ */
+export function followupLinkFor(suggestion: FollowupSuggestion, product: string): string | undefined {
+  const links = suggestion.admesh_links ?? {};
+  if (links[product]) return links[product];
+  const key = Object.keys(links).find((key) => key.toLowerCase() === product.toLowerCase());
+  return key !== undefined ? links[key] : undefined;
+}
+
+function isWordBoundary(text: string, start: number, end: number): boolean {
+  const isWordChar = (char: string | undefined) => !!char && /[A-Za-z0-9_]/.test(char);
+  return !isWordChar(text[start - 1]) && !isWordChar(text[end]);
+}
+
+function renderSegment(segment: FollowupChipSegment, linkFormat: 'markdown' | 'html'): string {
+  if (linkFormat === 'html') {
+    return segment.href ?
+        `<a href="${escapeHTML(segment.href)}">${escapeHTML(segment.text)}</a>`
+      : escapeHTML(segment.text);
+  }
+  return segment.href ?
+      `[${escapeMarkdownLinkText(segment.text)}](${escapeMarkdownURL(segment.href)})`
+    : segment.text;
+}
@@ -0,0 +1,204 @@
+import type { RecommendGetRecommendationsResponse } from '../resources/recommend';
+import { escapeHTML, escapeMarkdown, escapeMarkdownURL, markdownCodeSpan, safeLinkURL } from './html';
+
+type Recommendation = RecommendGetRecommendationsResponse.Response.Recommendation;
+
+/**
+ * The output formats `formatRecommendations` can produce. `'auto'`, the default `format`
+ * request parameter, renders markdown.
+ */
+export type RecommendationFormat = 'markdown' | 'html' | 'text' | 'auto';
+
+export const DEFAULT_DISCLOSURE = 'Sponsored: these recommendations may include paid placements.';
+
+export interface FormatRecommendationsOptions {
+  /**
+   * Accepts the same values as the `format` request parameter.
+   * @default 'markdown'
+   */
+  format?: RecommendationFormat | (string & {}) | null | undefined;
+
+  /**
+   * Which badges to show after each recommendation; `true` shows all of them.
+   * @default true
+   */
+  badges?: boolean | { pricing?: boolean; trial?: boolean; freeTier?: boolean } | undefined;
+
+  /**
+   * @default true
+   */
+  includeSummary?: boolean | undefined;
+
+  /**
+   * @default true
+   */
+  includeFollowups?: boolean | undefined;
+
+  /**
+   * Only render the first `maxRecommendations` recommendations.
+   */
+  maxRecommendations?: number | undefined;
+
+  /**
+   * The disclosure line. It is always rendered; an empty value falls back to the default.
+   */
+  disclosure?: string | undefined;
+}
+
+interface RenderItem {
+  index: number;
+  recommendation: Recommendation;
+  /** The `admesh_link`, or `null` when it is not an `http:` or `https:` URL. */
+  link: string | null;
+  badges: string[];
+}
+
+/**
+ * Renders a recommendation response as markdown, HTML or plain text.
+ *
+ * Recommendations are numbered and link through their tracked `admesh_link`, and the output
+ * always ends with a "Sponsored" disclosure line. HTML and markdown output escape all API-provided
+ * text, and only `http:` and `https:` links are rendered; a recommendation with any other link is
+ * shown without one.
+ *
+ * @example
+ * ```ts
+ * const markdown = formatRecommendations(response, { format: 'markdown' });
+ * ```
+ */
+export function formatRecommendations(
+  response: RecommendGetRecommendationsResponse,
+  options: FormatRecommendationsOptions = {},
+): string {
+  const recommendations = (response.response?.recommendations ?? []).slice(0, options.maxRecommendations);
+  const items: RenderItem[] = recommendations.map((recommendation, i) => ({
+    index: i + 1,
+    recommendation,
+    link: safeLinkURL(recommendation.admesh_link),
+    badges: badgesFor(recommendation, options.badges ?? true),
+  }));
+  const summary = (options.includeSummary ?? true) ? response.response?.summary?.trim() || null : null;
+  const followups =
+    (options.includeFollowups ?? true) ?
+      (response.response?.followup_suggestions ?? [])
+        .map((suggestion) => suggestion.label ?? suggestion.query)
+        .filter((label): label is string => !!label)
+    : [];
+  const disclosure = options.disclosure?.trim() || DEFAULT_DISCLOSURE;
+
+  switch (normalizeFormat(options.format)) {
+    case 'html':
+      return renderHTML(summary, items, followups, disclosure);
+    case 'text':
+      return renderText(summary, items, followups, disclosure);
+    default:
+      return renderMarkdown(summary, items, followups, disclosure);
+  }
+}
+
+function normalizeFormat(format: string | null | undefined): 'markdown' | 'html' | 'text' {
+  switch (format?.toLowerCase()) {
+    case 'html':
+      return 'html';
+    case 'text':
+    case 'plain':
+    case 'plaintext':
+      return 'text';
+    default:
+      return 'markdown';
+  }
+}
+
+function badgesFor(recommendation: Recommendation, option: FormatRecommendationsOptions['badges']): string[] {
+  if (!option) return [];
+  const show = option === true ? { pricing: true, trial: true, freeTier: true } : option;
+  const badges: string[] = [];
+  if (show.freeTier && recommendation.has_free_tier) badges.push('Free tier');
+  if (show.trial && recommendation.trial_days) badges.push(`${recommendation.trial_days}-day trial`);
+  if (show.pricing && recommendation.pricing?.trim()) badges.push(recommendation.pricing.trim());
+  return badges;
+}
+
+function renderMarkdown(
+  summary: string | null,
+  items: RenderItem[],
+  followups: string[],
+  disclosure: string,
+) {
+  const blocks: string[] = [];
+  if (summary) blocks.push(escapeMarkdown(summary));
+  if (items.length) {
+    blocks.push(
+      items
+        .map(({ index, recommendation, link, badges }) => {
+          const title =
+            link ?
+              `[${escapeMarkdown(recommendation.title)}](${escapeMarkdownURL(link)})`
+            : escapeMarkdown(recommendation.title);
+          const reason = recommendation.reason ? ` — ${escapeMarkdown(recommendation.reason)}` : '';
+          const badgeText = badges.map((badge) => ` ${markdownCodeSpan(badge)}`).join('');
+          return `${index}. **${title}**${reason}${badgeText}`;
+        })
+        .join('\n'),
+    );
+  }
+  if (followups.length) {
+    blocks.push(
+      ['**Follow-up questions:**', ...followups.map((label) => `- ${escapeMarkdown(label)}`)].join('\n'),
+    );
+  }
+  blocks.push(`_${disclosure}_`);
+  return blocks.join('\n\n');
+}
+
+function renderHTML(summary: string | null, items: RenderItem[], followups: string[], disclosure: string) {
+  const blocks: string[] = [];
+  if (summary) blocks.push(`<p class="admesh-summary">${escapeHTML(summary)}</p>`);
+  if (items.length) {
+    const listItems = items.map(({ recommendation, link, badges }) => {
+      const title =
+        link ?
+          `<a href="${escapeHTML(link)}" rel="sponsored noopener" target="_blank">${escapeHTML(recommendation.title)}</a>`
+        : escapeHTML(recommendation.title);
+      const reason = recommendation.reason ? ` — ${escapeHTML(recommendation.reason)}` : '';
+      const badgeText = badges
+        .map((badge) => ` <span class="admesh-badge">${escapeHTML(badge)}</span>`)
+        .join('');
+      return `  <li>${title}${reason}${badgeText}</li>`;
+    });
+    blocks.push(['<ol class="admesh-recommendations">', ...listItems, '</ol>'].join('\n'));
+  }
+  if (followups.length) {
+    blocks.push(
+      [
+        '<ul class="admesh-followups">',
+        ...followups.map((label) => `  <li>${escapeHTML(label)}</li>`),
+        '</ul>',
+      ].join('\n'),
+    );
+  }
+  blocks.push(`<p class="admesh-disclosure">${escapeHTML(disclosure)}</p>`);
+  return blocks.join('\n');
+}
+
+function renderText(summary: string | null, items: RenderItem[], followups: string[], disclosure: string) {
+  const blocks: string[] = [];
+  if (summary) blocks.push(summary);
+  if (items.length) {
+    blocks.push(
+      items
+        .map(({ index, recommendation, link, badges }) => {
+          const reason = recommendation.reason ? ` - ${recommendation.reason}` : '';
+          const badgeText = badges.length ? ` (${badges.join(', ')})` : '';
+          const line = `[${index}] ${recommendation.title}${reason}${badgeText}`;
+          return link ? `${line}\n    ${link}` : line;
+        })
+        .join('\n'),
+    );
+  }
+  if (followups.length) {
+    blocks.push(['Follow-up questions:', ...followups.map((label) => `- ${label}`)].join('\n'));
+  }
+  blocks.push(disclosure);
+  return blocks.join('\n\n');
+}
@@ -0,0 +1,60 @@
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escapes text for use in HTML element content or quoted attribute values.
+ */
+export function escapeHTML(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]!);
+}
+
+/**
+ * Returns `url` if it is an absolute `http:` or `https:` URL, and `null` otherwise, so that
+ * links such as `javascript:` URLs are never rendered.
+ */
+export function safeLinkURL(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Escapes the characters that would start inline markdown, such as links, emphasis, code spans
+ * or raw HTML, so that text renders as written.
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>~])/g, '\\$1');
+}
+
+/**
+ * Wraps text in a markdown code span, with a fence longer than any run of backticks in it.
+ */
+export function markdownCodeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * Escapes the characters that would end a markdown link label.
+ */
+export function escapeMarkdownLinkText(text: string): string {
+  return text.replace(/([\\[\]])/g, '\\$1');
+}
+
+/**
+ * Encodes the characters that would end a markdown link destination.
+ */
+export function escapeMarkdownURL(url: string): string {
+  return url.replace(/[\s()<>]/g, (char) => encodeURIComponent(char));
+}
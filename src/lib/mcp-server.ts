@@ -0,0 +1,353 @@
+import { Admesh, type ClientOptions } from '../client';
+import { AdmeshError } from '../core/error';
+import { LineDecoder } from '../internal/decoders/line';
+import { isObj } from '../internal/utils/values';
+import type { RecommendGetRecommendationsResponse } from '../resources/recommend';
+import { VERSION } from '../version';
+import {
+  RECOMMEND_TOOL_DESCRIPTION,
+  RECOMMEND_TOOL_NAME,
+  formatToolResult,
+  parseRecommendToolInput,
+  recommendToolSchema,
+  runRecommendTool,
+  sanitizeRecommendToolInput,
+  type RunRecommendToolOptions,
+} from './tools/recommend-tool';
+
+export const FOLLOW_UP_TOOL_NAME = 'follow_up';
+
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const RESOURCE_PREFIX = 'admesh://recommendations/';
+
+type JSONRPCId = string | number;
+
+export interface JSONRPCRequest {
+  jsonrpc: '2.0';
+
+  /**
+   * Unset for notifications, which get no response.
+   */
+  id?: JSONRPCId;
+
+  method: string;
+
+  params?: Record<string, unknown>;
+}
+
+export type JSONRPCResponse =
+  | { jsonrpc: '2.0'; id: JSONRPCId | null; result: Record<string, unknown> }
+  | { jsonrpc: '2.0'; id: JSONRPCId | null; error: { code: number; message: string } };
+
+export interface MCPServerOptions extends RunRecommendToolOptions {
+  /**
+   * Defaults to a client configured from the `ADMESH_*` environment variables.
+   */
+  client?: Admesh | undefined;
+
+  /**
+   * Options for the default client, used when `client` is unset.
+   */
+  clientOptions?: ClientOptions | undefined;
+}
+
+class JSONRPCError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A Model Context Protocol server exposing AdMesh to any MCP-capable agent host.
+ *
+ * Tools:
+ * - `get_recommendations` fetches recommendations for a query;
+ * - `follow_up` continues the session with one of the previous result's follow-up suggestions.
+ *
+ * The recommendations from the latest result are exposed as `admesh://recommendations/...`
+ * resources, and hosts are notified when they change.
+ *
+ * Use {@link runStdioServer} to serve it over stdio, or pass messages to
+ * {@link AdmeshMCPServer.handleMessage} directly.
+ */
+export class AdmeshMCPServer {
+  /**
+   * Called with notifications for the host, e.g. when the resource list changes.
+   */
+  onNotification: (notification: JSONRPCRequest) => void = () => {};
+
+  #client: Admesh | undefined;
+  #options: MCPServerOptions;
+  #lastQuery: string | undefined;
+  #lastResponse: RecommendGetRecommendationsResponse | undefined;
+
+  constructor(options: MCPServerOptions = {}) {
+    this.#client = options.client;
+    this.#options = options;
+  }
+
+  /**
+   * The latest recommendation response, whose recommendations are exposed as resources.
+   */
+  get lastResponse(): RecommendGetRecommendationsResponse | undefined {
+    return this.#lastResponse;
+  }
+
+  /**
+   * Handles one JSON-RPC message, returning the response to send back or `null` for notifications.
+   */
+  async handleMessage(message: unknown): Promise<JSONRPCResponse | null> {
+    if (!isObj(message) || message['jsonrpc'] !== '2.0' || typeof message['method'] !== 'string') {
+      const id = isObj(message) ? ((message['id'] as JSONRPCId | undefined) ?? null) : null;
+      return { jsonrpc: '2.0', id, error: { code: -32600, message: 'Invalid request' } };
+    }
+    const request = message as unknown as JSONRPCRequest;
+    const isNotification = request.id === undefined;
+
+    try {
+      const result = await this.#dispatch(request.method, request.params ?? {});
+      return isNotification ? null : { jsonrpc: '2.0', id: request.id!, result };
+    } catch (err) {
+      if (isNotification) return null;
+      const error =
+        err instanceof JSONRPCError ?
+          { code: err.code, message: err.message }
+        : { code: -32603, message: (err as Error)?.message ?? String(err) };
+      return { jsonrpc: '2.0', id: request.id!, error };
+    }
+  }
+
+  async #dispatch(method: string, params: Record<string, unknown>): Promise<Record<string, unknown>> {
+    switch (method) {
+      case 'initialize': {
+        const requested = params['protocolVersion'];
+        return {
+          protocolVersion:
+            typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ?
+              requested
+            : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {}, resources: { listChanged: true } },
+          serverInfo: { name: 'admesh', version: VERSION },
+        };
+      }
+      case 'ping':
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return {};
+      case 'tools/list':
+        return { tools: this.#tools() };
+      case 'tools/call':
+        return this.#callTool(params['name'], params['arguments']);
+      case 'resources/list':
+        return { resources: this.#resources() };
+      case 'resources/templates/list':
+        return { resourceTemplates: [] };
+      case 'resources/read':
+        return this.#readResource(params['uri']);
+      default:
+        throw new JSONRPCError(-32601, `Method not found: ${method}`);
+    }
+  }
+
+  #tools() {
+    return [
+      {
+        name: RECOMMEND_TOOL_NAME,
+        description: RECOMMEND_TOOL_DESCRIPTION,
+        inputSchema: recommendToolSchema(),
+      },
+      {
+        name: FOLLOW_UP_TOOL_NAME,
+        description:
+          'Continue the previous get_recommendations result with one of its follow-up queries, ' +
+          'by its position in the list or its text.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            index: {
+              type: 'integer',
+              minimum: 1,
+              description: 'The 1-based position of the follow-up query.',
+            },
+            query: {
+              type: 'string',
+              description: 'The follow-up query, or a new query in the same session.',
+            },
+          },
+          additionalProperties: false,
+        },
+      },
+    ];
+  }
+
+  async #callTool(name: unknown, args: unknown): Promise<Record<string, unknown>> {
+    try {
+      switch (name) {
+        case RECOMMEND_TOOL_NAME: {
+          const input = parseRecommendToolInput(args ?? {});
+          const { response } = await runRecommendTool(this.#getClient(), input, this.#options);
+          return this.#toolResult(input.query, response);
+        }
+        case FOLLOW_UP_TOOL_NAME:
+          return await this.#followUp(args);
+        default:
+          throw new JSONRPCError(-32602, `Unknown tool: ${String(name)}`);
+      }
+    } catch (err) {
+      if (err instanceof JSONRPCError) throw err;
+      // Tool failures are reported to the model, which may be able to correct its call.
+      return { content: [{ type: 'text', text: `Error: ${(err as Error).message}` }], isError: true };
+    }
+  }
+
+  async #followUp(args: unknown): Promise<Record<string, unknown>> {
+    const previous = this.#lastResponse;
+    if (!previous) {
+      throw new AdmeshError(
+        `There is no previous result to follow up on; call ${RECOMMEND_TOOL_NAME} first.`,
+      );
+    }
+    const input = isObj(args) ? args : {};
+    const suggestions = previous.response?.followup_suggestions ?? [];
+
+    let suggestion: RecommendGetRecommendationsResponse.FollowupSuggestion | undefined;
+    if (typeof input['index'] === 'number') {
+      suggestion = suggestions[input['index'] - 1];
+      if (!suggestion) throw new AdmeshError(`There is no follow-up query at position ${input['index']}.`);
+    } else if (typeof input['query'] === 'string' && input['query'].trim()) {
+      const query = input['query'].trim().toLowerCase();
+      suggestion = suggestions.find((s) =>
+        [s.query, s.label].some((text) => text?.toLowerCase() === query),
+      ) ?? {
+        query: input['query'],
+      };
+    } else {
+      throw new AdmeshError('Pass the `index` or `query` of a follow-up.');
+    }
+
+    const sanitized = sanitizeRecommendToolInput({
+      query: suggestion.query ?? suggestion.label ?? '',
+      ...(this.#lastQuery !== undefined && { previous_query: this.#lastQuery }),
+      ...(previous.response?.summary !== undefined && { previous_summary: previous.response.summary }),
+    });
+    const sessionId = suggestion.session_id ?? previous.session_id;
+    const response = await this.#getClient().recommend.followUp(
+      { ...suggestion, query: sanitized.query, ...(sessionId !== undefined && { session_id: sessionId }) },
+      {
+        ...this.#options.params,
+        previous_query: sanitized.previous_query ?? null,
+        previous_summary: sanitized.previous_summary ?? null,
+        raiseOnEmptyRecommendations: false,
+      },
+      this.#options.requestOptions,
+    );
+    return this.#toolResult(sanitized.query, response);
+  }
+
+  #toolResult(query: string, response: RecommendGetRecommendationsResponse) {
+    this.#lastQuery = query;
+    this.#lastResponse = response;
+    this.onNotification({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+    return { content: [{ type: 'text', text: formatToolResult(response, this.#options) }] };
+  }
+
+  #resources() {
+    return (this.#lastResponse?.response?.recommendations ?? []).map((recommendation, i) => ({
+      uri: resourceURI(recommendation, i),
+      name: recommendation.title,
+      description: recommendation.reason,
+      mimeType: 'application/json',
+    }));
+  }
+
+  #readResource(uri: unknown): Record<string, unknown> {
+    const recommendations = this.#lastResponse?.response?.recommendations ?? [];
+    const index = recommendations.findIndex((recommendation, i) => resourceURI(recommendation, i) === uri);
+    if (index === -1) {
+      throw new JSONRPCError(-32002, `Resource not found: ${String(uri)}`);
+    }
+    return {
+      contents: [
+        { uri, mimeType: 'application/json', text: JSON.stringify(recommendations[index], null, 2) },
+      ],
+    };
+  }
+
+  #getClient(): Admesh {
+    return (this.#client ??= new Admesh(this.#options.clientOptions));
+  }
+}
+
+function resourceURI(recommendation: RecommendGetRecommendationsResponse.Response.Recommendation, i: number) {
+  return RESOURCE_PREFIX + encodeURIComponent(recommendation.product_id || String(i + 1));
+}
+
+export interface StdioServerOptions extends MCPServerOptions {
+  /**
+   * @default process.stdin
+   */
+  input?: AsyncIterable<Uint8Array | string> | undefined;
+
+  /**
+   * @default process.stdout
+   */
+  output?: { write(chunk: string): unknown } | undefined;
+}
+
+// stdout carries the protocol, so the default client logs to stderr.
+const logToStderr = (message: string, ...rest: unknown[]) => console.error(message, ...rest);
+const STDERR_LOGGER = { debug: logToStderr, info: logToStderr, warn: logToStderr, error: logToStderr };
+
+/**
+ * Serves an {@link AdmeshMCPServer} over newline-delimited JSON-RPC, as used by the MCP stdio
+ * transport. Resolves when the input ends.
+ *
+ * The default client logs to stderr. A `client` passed in must not log to stdout, as anything
+ * else written there corrupts the protocol stream.
+ *
+ * @example
+ * ```ts
+ * await runStdioServer({ client: new Admesh({ apiKey }) });
+ * ```
+ */
+export async function runStdioServer(options: StdioServerOptions = {}): Promise<void> {
+  const process = (globalThis as any).process;
+  const input: AsyncIterable<Uint8Array | string> = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const server = new AdmeshMCPServer({
+    ...options,
+    clientOptions: { logger: STDERR_LOGGER, ...options.clientOptions },
+  });
+  const send = (message: JSONRPCRequest | JSONRPCResponse) => output.write(JSON.stringify(message) + '\n');
+  server.onNotification = send;
+
+  const handleLine = async (line: string) => {
+    if (!line.trim()) return;
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      return;
+    }
+    const response = await server.handleMessage(message);
+    if (response) send(response);
+  };
+
+  // Requests are handled concurrently, as tool calls can take a while.
+  const pending = new Set<Promise<void>>();
+  const decoder = new LineDecoder();
+  const handle = (line: string) => {
+    const promise = handleLine(line).finally(() => pending.delete(promise));
+    pending.add(promise);
+  };
+  for await (const chunk of input) {
+    decoder.decode(chunk).forEach(handle);
+  }
+  decoder.flush().forEach(handle);
+  await Promise.all(pending);
+}
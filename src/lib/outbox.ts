@@ -0,0 +1,357 @@
+import { AdmeshError } from '../core/error';
+import { getDetectedPlatform, isRunningInBrowser } from '../internal/detect-platform';
+import { uuid4 } from '../internal/utils/uuid';
+import type { TrackingEvent } from '../resources/tracking';
+
+/**
+ * Events grouped for a single request. The idempotency key is assigned when the batch is
+ * formed and persisted with it, so a replayed batch is sent with the same key.
+ */
+export interface OutboxBatch {
+  idempotency_key: string;
+
+  events: Array<TrackingEvent>;
+
+  /**
+   * How many times sending this batch has failed.
+   */
+  attempts: number;
+}
+
+export interface OutboxState {
+  /**
+   * Events not yet assigned to a batch.
+   */
+  events: Array<TrackingEvent>;
+
+  batches: Array<OutboxBatch>;
+
+  /**
+   * The `event_id`s of recently delivered events, used to drop duplicates on replay.
+   */
+  delivered: Array<string>;
+}
+
+/**
+ * Persists the outbox between process restarts or page loads.
+ */
+export interface OutboxStorage {
+  load(): Promise<OutboxState | null | undefined>;
+
+  save(state: OutboxState): Promise<void>;
+}
+
+export interface EventOutboxOptions {
+  /**
+   * Generates the idempotency key for a new batch.
+   */
+  idempotencyKey: () => string;
+
+  /**
+   * The most undelivered events to hold; the oldest are dropped beyond this.
+   */
+  maxEvents: number;
+
+  /**
+   * How many times to try sending a batch before dropping it.
+   * @default 5
+   */
+  maxAttempts?: number;
+
+  /**
+   * How many delivered `event_id`s to remember for de-duplication.
+   * @default 1000
+   */
+  maxDelivered?: number;
+}
+
+/**
+ * A queue of tracking events which survives restarts when backed by durable storage.
+ *
+ * Every change is written through to the storage. Writes are serialized, and a failing write is
+ * reported through `onError` without losing the in-memory state.
+ */
+export class EventOutbox {
+  onError: (err: unknown) => void = () => {};
+
+  #storage: OutboxStorage;
+  #options: EventOutboxOptions;
+  #state: OutboxState = { events: [], batches: [], delivered: [] };
+  #ready: Promise<void>;
+  #writing: Promise<void> = Promise.resolve();
+
+  constructor(storage: OutboxStorage, options: EventOutboxOptions) {
+    this.#storage = storage;
+    this.#options = options;
+    this.#ready = storage
+      .load()
+      .then((stored) => {
+        if (stored) this.#merge(stored);
+      })
+      .catch((err) => this.onError(err));
+  }
+
+  /**
+   * Resolves once any previously stored events have been loaded.
+   */
+  ready(): Promise<void> {
+    return this.#ready;
+  }
+
+  /**
+   * The number of undelivered events, including those in batches.
+   */
+  get size(): number {
+    return this.#state.events.length + this.#state.batches.reduce((n, batch) => n + batch.events.length, 0);
+  }
+
+  /**
+   * Adds an event, returning the events dropped to stay within `maxEvents`.
+   */
+  add(event: TrackingEvent): Array<TrackingEvent> {
+    if (this.#isKnown(event.event_id)) return [];
+    this.#state.events.push(event);
+
+    const overflow = this.size - this.#options.maxEvents;
+    const dropped = overflow > 0 ? this.#state.events.splice(0, overflow) : [];
+    this.#persist();
+    return dropped;
+  }
+
+  /**
+   * The next batch to send: a previously failed batch, or a new one of up to `size` events.
+   */
+  async nextBatch(size: number): Promise<OutboxBatch | null> {
+    await this.#ready;
+
+    const pending = this.#state.batches[0];
+    if (pending) return pending;
+    if (!this.#state.events.length) return null;
+
+    const batch: OutboxBatch = {
+      idempotency_key: this.#options.idempotencyKey(),
+      events: this.#state.events.splice(0, size),
+      attempts: 0,
+    };
+    this.#state.batches.push(batch);
+    await this.#persist();
+    return batch;
+  }
+
+  /**
+   * Marks a batch as delivered.
+   */
+  async ack(batch: OutboxBatch): Promise<void> {
+    this.#state.batches = this.#state.batches.filter((b) => b.idempotency_key !== batch.idempotency_key);
+    const delivered = [...this.#state.delivered, ...batch.events.map((event) => event.event_id)];
+    this.#state.delivered = delivered.slice(-(this.#options.maxDelivered ?? 1000));
+    await this.#persist();
+  }
+
+  /**
+   * Records a failed attempt. The batch stays at the front of the outbox, unless the failure can't
+   * be retried or the batch has had `maxAttempts`: then it's dropped, so that it doesn't hold up
+   * the events behind it. Returns whether the batch was dropped.
+   */
+  async nack(batch: OutboxBatch, { retryable = true }: { retryable?: boolean } = {}): Promise<boolean> {
+    batch.attempts += 1;
+    const dropped = !retryable || batch.attempts >= (this.#options.maxAttempts ?? 5);
+    if (dropped) {
+      this.#state.batches = this.#state.batches.filter((b) => b.idempotency_key !== batch.idempotency_key);
+    }
+    await this.#persist();
+    return dropped;
+  }
+
+  #isKnown(eventId: string): boolean {
+    return (
+      this.#state.delivered.includes(eventId) ||
+      this.#state.events.some((event) => event.event_id === eventId) ||
+      this.#state.batches.some((batch) => batch.events.some((event) => event.event_id === eventId))
+    );
+  }
+
+  /**
+   * Combines stored state with events added before it finished loading.
+   */
+  #merge(stored: OutboxState) {
+    const current = this.#state;
+    this.#state = {
+      events: [],
+      batches: stored.batches ?? [],
+      delivered: [...new Set([...(stored.delivered ?? []), ...current.delivered])],
+    };
+    for (const batch of current.batches) {
+      if (!this.#state.batches.some((b) => b.idempotency_key === batch.idempotency_key)) {
+        this.#state.batches.push(batch);
+      }
+    }
+    for (const event of [...(stored.events ?? []), ...current.events]) {
+      if (!this.#isKnown(event.event_id)) this.#state.events.push(event);
+    }
+  }
+
+  #persist(): Promise<void> {
+    const snapshot: OutboxState = {
+      events: [...this.#state.events],
+      batches: this.#state.batches.map((batch) => ({ ...batch })),
+      delivered: [...this.#state.delivered],
+    };
+    this.#writing = this.#writing
+      .then(() => this.#ready)
+      .then(() => this.#storage.save(snapshot))
+      .catch((err) => this.onError(err));
+    return this.#writing;
+  }
+}
+
+/**
+ * Keeps the outbox in memory; events are lost when the process exits.
+ */
+export class MemoryOutboxStorage implements OutboxStorage {
+  #state: OutboxState | undefined;
+
+  async load(): Promise<OutboxState | undefined> {
+    return this.#state && cloneState(this.#state);
+  }
+
+  async save(state: OutboxState): Promise<void> {
+    this.#state = cloneState(state);
+  }
+}
+
+/**
+ * Stores the outbox as a JSON file. Node.js only.
+ *
+ * Give each client its own file: clients sharing one overwrite each other's events.
+ */
+export class FileOutboxStorage implements OutboxStorage {
+  /**
+   * @param path - Where to store the outbox.
+   * @param scope - Instead of a `path`, names a file in the OS temp directory, e.g. after the client.
+   */
+  constructor(
+    readonly path?: string | undefined,
+    readonly scope?: string | undefined,
+  ) {
+    if (!path && !scope) {
+      throw new AdmeshError('FileOutboxStorage requires a `path`');
+    }
+  }
+
+  async load(): Promise<OutboxState | null> {
+    const fs = await import('node:fs/promises');
+    try {
+      return JSON.parse(await fs.readFile(await this.resolvePath(), 'utf8'));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async save(state: OutboxState): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const path = await this.resolvePath();
+    // Write to a temporary file first so that a crash mid-write can't corrupt the outbox. Its name
+    // is unique, so that concurrent writers replace the outbox whole rather than mix their writes.
+    const tmpPath = `${path}.${uuid4()}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(state), 'utf8');
+    await fs.rename(tmpPath, path);
+  }
+
+  private async resolvePath(): Promise<string> {
+    if (this.path) return this.path;
+    const [os, path] = await Promise.all([import('node:os'), import('node:path')]);
+    return path.join(os.tmpdir(), `admesh-outbox-${this.scope}.json`);
+  }
+}
+
+/**
+ * Stores the outbox under a single `localStorage` key. Browsers only.
+ */
+export class LocalStorageOutboxStorage implements OutboxStorage {
+  constructor(readonly key: string = 'admesh-outbox') {}
+
+  async load(): Promise<OutboxState | null> {
+    const value = (globalThis as any).localStorage.getItem(this.key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async save(state: OutboxState): Promise<void> {
+    (globalThis as any).localStorage.setItem(this.key, JSON.stringify(state));
+  }
+}
+
+/**
+ * Stores the outbox in an IndexedDB object store. Browsers only.
+ */
+export class IndexedDBOutboxStorage implements OutboxStorage {
+  static STORE_NAME = 'outbox';
+  static KEY = 'state';
+
+  #db: Promise<any> | undefined;
+
+  constructor(readonly databaseName: string = 'admesh') {}
+
+  async load(): Promise<OutboxState | null> {
+    const db = await this.open();
+    const value = await requestToPromise(
+      db
+        .transaction(IndexedDBOutboxStorage.STORE_NAME, 'readonly')
+        .objectStore(IndexedDBOutboxStorage.STORE_NAME)
+        .get(IndexedDBOutboxStorage.KEY),
+    );
+    return value ?? null;
+  }
+
+  async save(state: OutboxState): Promise<void> {
+    const db = await this.open();
+    await requestToPromise(
+      db
+        .transaction(IndexedDBOutboxStorage.STORE_NAME, 'readwrite')
+        .objectStore(IndexedDBOutboxStorage.STORE_NAME)
+        .put(state, IndexedDBOutboxStorage.KEY),
+    );
+  }
+
+  private open(): Promise<any> {
+    return (this.#db ??= (() => {
+      const request = (globalThis as any).indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IndexedDBOutboxStorage.STORE_NAME);
+      return requestToPromise(request);
+    })());
+  }
+}
+
+function requestToPromise(request: any): Promise<any> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function cloneState(state: OutboxState): OutboxState {
+  return JSON.parse(JSON.stringify(state));
+}
+
+/**
+ * Picks durable storage for the current runtime: a file in the OS temp directory on Node.js,
+ * IndexedDB or `localStorage` in browsers, and memory everywhere else.
+ *
+ * @param scope - Keeps this outbox apart from others, e.g. a hash of the client's API key and base
+ * URL, so that events are never sent with another client's key.
+ */
+export function defaultOutboxStorage(scope: string): OutboxStorage {
+  if (getDetectedPlatform() === 'node') {
+    return new FileOutboxStorage(undefined, scope);
+  }
+  if (isRunningInBrowser()) {
+    if (typeof (globalThis as any).indexedDB !== 'undefined') {
+      return new IndexedDBOutboxStorage(`admesh-${scope}`);
+    }
+    if (typeof (globalThis as any).localStorage !== 'undefined') {
+      return new LocalStorageOutboxStorage(`admesh-outbox-${scope}`);
+    }
+  }
+  return new MemoryOutboxStorage();
+}
@@ -0,0 +1,86 @@
+import type { RecommendGetRecommendationsResponse } from '../resources/recommend';
+import {
+  type Infer,
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+} from '../core/validation';
+
+// Numbers and booleans are coerced from strings, and IDs from numbers, as some API versions send
+// them that way.
+
+const recommendationSchema = object({
+  ad_id: string({ coerce: true }),
+  admesh_link: string(),
+  product_id: string({ coerce: true }),
+  reason: string(),
+  title: string(),
+  intent_match_score: optional(number({ coerce: true })),
+  features: optional(array(string())),
+  has_free_tier: optional(boolean({ coerce: true })),
+  integrations: optional(array(string())),
+  pricing: optional(string()),
+  redirect_url: optional(string()),
+  reviews_summary: optional(string()),
+  reward_note: optional(nullable(string())),
+  security: optional(array(string())),
+  slug: optional(string()),
+  support: optional(array(string())),
+  trial_days: optional(number({ coerce: true })),
+  url: optional(string()),
+});
+
+const followupSuggestionSchema = object({
+  label: optional(string()),
+  query: optional(string()),
+  product_mentions: optional(array(string())),
+  admesh_links: optional(record(string())),
+  session_id: optional(string({ coerce: true })),
+});
+
+const intentSchema = object({
+  categories: optional(array(string())),
+  goal: optional(string()),
+  llm_intent_confidence_score: optional(number({ coerce: true })),
+  known_mentions: optional(array(string())),
+  intent_type: optional(string()),
+  intent_group: optional(string()),
+  tags: optional(array(string())),
+});
+
+/**
+ * The schema of `/agent/recommend` responses, used when `responseValidation` is enabled.
+ */
+export const recommendResponseSchema = object({
+  intent: optional(intentSchema),
+  response: optional(
+    object({
+      summary: optional(string()),
+      recommendations: optional(array(recommendationSchema)),
+      followup_suggestions: optional(array(followupSuggestionSchema)),
+    }),
+  ),
+  tokens_used: optional(number({ coerce: true })),
+  model_used: optional(string()),
+  recommendation_id: optional(string({ coerce: true })),
+  session_id: optional(string({ coerce: true })),
+  end_of_session: optional(boolean({ coerce: true })),
+});
+
+// Fails to compile if the schema and the response type drift apart.
+type Same<A, B> =
+  [A] extends [B] ?
+    [B] extends [A] ?
+      true
+    : false
+  : false;
+const schemaMatchesType: Same<
+  Infer<typeof recommendResponseSchema>,
+  RecommendGetRecommendationsResponse
+> = true;
+void schemaMatchesType;
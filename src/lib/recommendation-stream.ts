@@ -0,0 +1,168 @@
+import { AdmeshError, APIUserAbortError, NoRecommendationsError } from '../core/error';
+import { type Stream } from '../core/streaming';
+import type { RecommendGetRecommendationsResponse, RecommendStreamEvent } from '../resources/recommend';
+
+export interface RecommendationStreamOptions {
+  /**
+   * The query the stream was created for, used in error messages.
+   */
+  query?: string | undefined;
+
+  /**
+   * Whether `finalResponse()` should reject with a `NoRecommendationsError` when the
+   * stream finished without any recommendations.
+   * @default true
+   */
+  raiseOnEmptyRecommendations?: boolean | undefined;
+
+  /**
+   * Called with the aggregated response when the stream finishes successfully.
+   */
+  onComplete?: ((response: RecommendGetRecommendationsResponse) => void) | undefined;
+}
+
+/**
+ * Wraps a streamed `/agent/recommend` response.
+ *
+ * Iterate it with `for await` to receive each {@link RecommendStreamEvent} as it arrives,
+ * or call {@link RecommendationStream.finalResponse} to get the aggregated
+ * `RecommendGetRecommendationsResponse` once the server has finished.
+ */
+export class RecommendationStream implements AsyncIterable<RecommendStreamEvent> {
+  controller: AbortController;
+
+  #stream: Stream<RecommendStreamEvent>;
+  #options: RecommendationStreamOptions;
+  #snapshot: RecommendGetRecommendationsResponse;
+  #iterated = false;
+  #settled = false;
+  #endPromise: Promise<void>;
+  #resolveEnd: () => void = () => {};
+  #rejectEnd: (err: unknown) => void = () => {};
+
+  constructor(stream: Stream<RecommendStreamEvent>, options: RecommendationStreamOptions = {}) {
+    this.#stream = stream;
+    this.#options = options;
+    this.controller = stream.controller;
+    this.#snapshot = { response: { summary: '', recommendations: [], followup_suggestions: [] } };
+    this.#endPromise = new Promise<void>((resolve, reject) => {
+      this.#resolveEnd = resolve;
+      this.#rejectEnd = reject;
+    });
+    // Avoid unhandled rejections when nobody awaits the final response.
+    this.#endPromise.catch(() => {});
+  }
+
+  /**
+   * The summary text received so far.
+   */
+  get summary(): string {
+    return this.#snapshot.response?.summary ?? '';
+  }
+
+  /**
+   * The recommendations received so far.
+   */
+  get recommendations(): Array<RecommendGetRecommendationsResponse.Response.Recommendation> {
+    return this.#snapshot.response?.recommendations ?? [];
+  }
+
+  /**
+   * The response aggregated from the events received so far.
+   */
+  get currentResponse(): RecommendGetRecommendationsResponse {
+    return this.#snapshot;
+  }
+
+  /**
+   * Aborts the underlying request.
+   */
+  abort(): void {
+    this.controller.abort();
+  }
+
+  /**
+   * Waits for the stream to finish and returns the aggregated response, consuming the
+   * stream if it hasn't been iterated yet.
+   *
+   * @throws APIUserAbortError if the stream was aborted before it finished
+   * @throws NoRecommendationsError if no recommendations were streamed and raiseOnEmptyRecommendations is true
+   */
+  async finalResponse(): Promise<RecommendGetRecommendationsResponse> {
+    if (!this.#iterated) {
+      for await (const _ of this) {
+      }
+    }
+    await this.#endPromise;
+
+    const { raiseOnEmptyRecommendations = true, query } = this.#options;
+    if (raiseOnEmptyRecommendations && !this.#snapshot.response?.recommendations?.length) {
+      throw new NoRecommendationsError({ message: `No recommendations available for query: ${query}` });
+    }
+
+    return this.#snapshot;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<RecommendStreamEvent> {
+    if (this.#iterated) {
+      throw new AdmeshError('Cannot iterate over a consumed stream.');
+    }
+    this.#iterated = true;
+
+    try {
+      for await (const event of this.#stream) {
+        this.#accumulate(event);
+        yield event;
+      }
+      // The underlying stream ends quietly when aborted, so surface that here.
+      if (this.controller.signal.aborted) {
+        throw new APIUserAbortError();
+      }
+      this.#settle();
+    } catch (err) {
+      this.#settle(err);
+      throw err;
+    } finally {
+      // The consumer stopped iterating early, e.g. with `break`.
+      this.#settle(new APIUserAbortError());
+    }
+  }
+
+  #settle(err?: unknown) {
+    if (this.#settled) return;
+    this.#settled = true;
+    if (err === undefined) {
+      this.#options.onComplete?.(this.#snapshot);
+      this.#resolveEnd();
+    } else {
+      this.#rejectEnd(err);
+    }
+  }
+
+  #accumulate(event: RecommendStreamEvent) {
+    const response = (this.#snapshot.response ??= {});
+
+    switch (event.type) {
+      case 'summary.delta':
+        response.summary = (response.summary ?? '') + event.delta;
+        break;
+      case 'recommendation':
+        (response.recommendations ??= []).push(event.recommendation);
+        break;
+      case 'followup_suggestion':
+        (response.followup_suggestions ??= []).push(event.followup_suggestion);
+        break;
+      case 'metadata': {
+        const { type, ...metadata } = event;
+        Object.assign(this.#snapshot, metadata);
+        break;
+      }
+      case 'done':
+        // The server may send the complete response as the final event; it is authoritative.
+        if (event.response) {
+          this.#snapshot = event.response;
+        }
+        break;
+    }
+  }
+}
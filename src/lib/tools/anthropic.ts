@@ -0,0 +1,112 @@
+import type { Admesh } from '../../client';
+import {
+  RECOMMEND_TOOL_DESCRIPTION,
+  RECOMMEND_TOOL_NAME,
+  parseRecommendToolInput,
+  recommendToolSchema,
+  runRecommendTool,
+  type RunRecommendToolOptions,
+} from './recommend-tool';
+
+/**
+ * A tool in the shape of the Anthropic Messages API `tools` parameter.
+ */
+export interface AnthropicTool {
+  name: string;
+
+  description: string;
+
+  input_schema: Record<string, unknown>;
+}
+
+/**
+ * A `tool_use` content block from an assistant message.
+ */
+export interface AnthropicToolUseBlock {
+  type: 'tool_use';
+
+  id: string;
+
+  name: string;
+
+  input: unknown;
+}
+
+/**
+ * A `tool_result` content block answering a `tool_use` block.
+ */
+export interface AnthropicToolResultBlock {
+  type: 'tool_result';
+
+  tool_use_id: string;
+
+  content: string;
+
+  is_error?: boolean;
+}
+
+/**
+ * The Anthropic `tools` definitions for AdMesh.
+ *
+ * @example
+ * ```ts
+ * const message = await anthropic.messages.create({
+ *   model: 'claude-sonnet-4-5',
+ *   max_tokens: 1024,
+ *   messages,
+ *   tools: anthropicTools(),
+ * });
+ * ```
+ */
+export function anthropicTools(): AnthropicTool[] {
+  return [
+    {
+      name: RECOMMEND_TOOL_NAME,
+      description: RECOMMEND_TOOL_DESCRIPTION,
+      input_schema: recommendToolSchema(),
+    },
+  ];
+}
+
+/**
+ * Runs the AdMesh `tool_use` blocks from an assistant message's content and returns the
+ * `tool_result` blocks to send back in the next user message. Other blocks are ignored, so the
+ * result can be combined with your own tool results.
+ *
+ * The input is passed through `sanitizeAndBuild` first (unless `sanitize: false`), so PII the
+ * model copied from the conversation isn't forwarded to AdMesh. Invalid input is reported back as
+ * an error result; API errors are thrown.
+ *
+ * @example
+ * ```ts
+ * const results = await handleAnthropicToolUse(client, message.content);
+ * messages.push({ role: 'assistant', content: message.content }, { role: 'user', content: results });
+ * ```
+ */
+export async function handleAnthropicToolUse(
+  client: Admesh,
+  content: ReadonlyArray<{ type: string }>,
+  options: RunRecommendToolOptions = {},
+): Promise<AnthropicToolResultBlock[]> {
+  const blocks = content.filter(
+    (block): block is AnthropicToolUseBlock =>
+      block.type === 'tool_use' && (block as AnthropicToolUseBlock).name === RECOMMEND_TOOL_NAME,
+  );
+  return Promise.all(
+    blocks.map(async (block): Promise<AnthropicToolResultBlock> => {
+      let input;
+      try {
+        input = parseRecommendToolInput(block.input);
+      } catch (err) {
+        return {
+          type: 'tool_result',
+          tool_use_id: block.id,
+          content: (err as Error).message,
+          is_error: true,
+        };
+      }
+      const { content } = await runRecommendTool(client, input, options);
+      return { type: 'tool_result', tool_use_id: block.id, content };
+    }),
+  );
+}
@@ -0,0 +1,119 @@
+import type { Admesh } from '../../client';
+import {
+  RECOMMEND_TOOL_DESCRIPTION,
+  RECOMMEND_TOOL_NAME,
+  parseRecommendToolInput,
+  recommendToolSchema,
+  runRecommendTool,
+  type RunRecommendToolOptions,
+} from './recommend-tool';
+
+/**
+ * A function tool in the shape of OpenAI's Chat Completions `tools` parameter.
+ */
+export interface OpenAIFunctionTool {
+  type: 'function';
+
+  function: {
+    name: string;
+
+    description: string;
+
+    parameters: Record<string, unknown>;
+
+    strict?: boolean;
+  };
+}
+
+/**
+ * A tool call from an assistant message's `tool_calls`.
+ */
+export interface OpenAIToolCall {
+  id: string;
+
+  type?: string;
+
+  function: {
+    name: string;
+
+    arguments: string;
+  };
+}
+
+/**
+ * A `role: 'tool'` message answering a tool call.
+ */
+export interface OpenAIToolMessage {
+  role: 'tool';
+
+  tool_call_id: string;
+
+  content: string;
+}
+
+export interface OpenAIToolsOptions {
+  /**
+   * Emit a schema compatible with OpenAI's strict mode and set `strict: true`.
+   * @default false
+   */
+  strict?: boolean | undefined;
+}
+
+/**
+ * The OpenAI `tools` definitions for AdMesh.
+ *
+ * @example
+ * ```ts
+ * const completion = await openai.chat.completions.create({
+ *   model: 'gpt-4o',
+ *   messages,
+ *   tools: openAITools(),
+ * });
+ * ```
+ */
+export function openAITools(options: OpenAIToolsOptions = {}): OpenAIFunctionTool[] {
+  const strict = options.strict ?? false;
+  return [
+    {
+      type: 'function',
+      function: {
+        name: RECOMMEND_TOOL_NAME,
+        description: RECOMMEND_TOOL_DESCRIPTION,
+        parameters: recommendToolSchema({ strict }),
+        ...(strict && { strict }),
+      },
+    },
+  ];
+}
+
+/**
+ * Runs the AdMesh tool calls from an assistant message and returns the `tool` messages to send
+ * back. Calls to other tools are ignored, so the result can be combined with your own.
+ *
+ * Invalid arguments are reported back to the model in the message content; API errors are thrown.
+ *
+ * @example
+ * ```ts
+ * const message = completion.choices[0].message;
+ * messages.push(message, ...(await handleOpenAIToolCalls(client, message.tool_calls ?? [])));
+ * ```
+ */
+export async function handleOpenAIToolCalls(
+  client: Admesh,
+  toolCalls: ReadonlyArray<OpenAIToolCall>,
+  options: RunRecommendToolOptions = {},
+): Promise<OpenAIToolMessage[]> {
+  const calls = toolCalls.filter((call) => call.function?.name === RECOMMEND_TOOL_NAME);
+  return Promise.all(
+    calls.map(async (call): Promise<OpenAIToolMessage> => {
+      let input;
+      try {
+        input = parseRecommendToolInput(call.function.arguments);
+      } catch (err) {
+        return { role: 'tool', tool_call_id: call.id, content: `Error: ${(err as Error).message}` };
+      }
+      const { content } = await runRecommendTool(client, input, options);
+      return { role: 'tool', tool_call_id: call.id, content };
+    }),
+  );
+}
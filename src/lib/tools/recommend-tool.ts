@@ -0,0 +1,226 @@
+import type { Admesh } from '../../client';
+import { AdmeshError } from '../../core/error';
+import { isObj } from '../../internal/utils/values';
+import { sanitizeAndBuild } from '../../sanitize-and-build';
+import type { RequestOptions } from '../../internal/request-options';
+import type {
+  RecommendGetRecommendationsParamsNonStreaming,
+  RecommendGetRecommendationsResponse,
+} from '../../resources/recommend';
+
+export const RECOMMEND_TOOL_NAME = 'get_recommendations';
+
+export const RECOMMEND_TOOL_DESCRIPTION =
+  'Get sponsored product and tool recommendations for what the user is looking for. ' +
+  'Use it when the user asks for products, tools or services. Results are paid placements: ' +
+  'cite them with the links provided.';
+
+/**
+ * The arguments a model passes to the recommend tool.
+ */
+export interface RecommendToolInput {
+  /**
+   * What the user is looking for, without personal details.
+   */
+  query: string;
+
+  previous_query?: string | null;
+
+  previous_summary?: string | null;
+
+  session_id?: string | null;
+}
+
+/**
+ * The JSON schema properties of {@link RecommendToolInput}.
+ */
+export const RECOMMEND_TOOL_PROPERTIES = {
+  query: {
+    type: 'string',
+    description:
+      'What the user is looking for, e.g. "CRM for a small remote sales team". No personal details.',
+  },
+  previous_query: {
+    type: 'string',
+    description: 'The previous query in this conversation, if any.',
+  },
+  previous_summary: {
+    type: 'string',
+    description: 'A summary of the previous recommendations in this conversation, if any.',
+  },
+  session_id: {
+    type: 'string',
+    description: 'The session_id from a previous result, to continue that session.',
+  },
+} as const;
+
+/**
+ * The JSON schema for {@link RecommendToolInput}.
+ *
+ * With `strict`, every property is required and optional ones are nullable instead, as OpenAI's
+ * structured outputs require.
+ */
+export function recommendToolSchema({ strict = false }: { strict?: boolean } = {}): Record<string, unknown> {
+  if (!strict) {
+    return {
+      type: 'object',
+      properties: RECOMMEND_TOOL_PROPERTIES,
+      required: ['query'],
+      additionalProperties: false,
+    };
+  }
+  const properties = Object.fromEntries(
+    Object.entries(RECOMMEND_TOOL_PROPERTIES).map(([key, schema]) => [
+      key,
+      key === 'query' ? schema : { ...schema, type: [schema.type, 'null'] },
+    ]),
+  );
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(RECOMMEND_TOOL_PROPERTIES),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Validates tool arguments from a model, which may be a JSON string or an already parsed object.
+ *
+ * @throws AdmeshError if the arguments are not valid
+ */
+export function parseRecommendToolInput(input: unknown): RecommendToolInput {
+  let value = input;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value || '{}');
+    } catch {
+      throw new AdmeshError(`Invalid ${RECOMMEND_TOOL_NAME} arguments: not valid JSON`);
+    }
+  }
+  if (!isObj(value)) {
+    throw new AdmeshError(`Invalid ${RECOMMEND_TOOL_NAME} arguments: expected an object`);
+  }
+  if (typeof value['query'] !== 'string' || !value['query'].trim()) {
+    throw new AdmeshError(`Invalid ${RECOMMEND_TOOL_NAME} arguments: \`query\` must be a non-empty string`);
+  }
+
+  const result: RecommendToolInput = { query: value['query'] };
+  for (const key of ['previous_query', 'previous_summary', 'session_id'] as const) {
+    const field = value[key];
+    if (field === undefined || field === null) continue;
+    if (typeof field !== 'string') {
+      throw new AdmeshError(`Invalid ${RECOMMEND_TOOL_NAME} arguments: \`${key}\` must be a string`);
+    }
+    result[key] = field;
+  }
+  return result;
+}
+
+export interface ToolResultOptions {
+  /**
+   * @default 5
+   */
+  maxRecommendations?: number | undefined;
+
+  /**
+   * The longest result to return, in characters. Recommendations that don't fit are left out.
+   * @default 2000
+   */
+  maxLength?: number | undefined;
+}
+
+/**
+ * Serializes a response into a compact, plain-text tool result.
+ */
+export function formatToolResult(
+  response: RecommendGetRecommendationsResponse,
+  options: ToolResultOptions = {},
+): string {
+  const maxLength = options.maxLength ?? 2000;
+  const recommendations = (response.response?.recommendations ?? []).slice(
+    0,
+    options.maxRecommendations ?? 5,
+  );
+  if (!recommendations.length) {
+    return 'No recommendations found.';
+  }
+
+  const head: string[] = [];
+  const summary = response.response?.summary?.trim();
+  if (summary) head.push(`Summary: ${summary}`);
+  head.push('Recommendations (sponsored; cite with the link given):');
+
+  const tail: string[] = [];
+  const followups = (response.response?.followup_suggestions ?? [])
+    .map((suggestion) => suggestion.query ?? suggestion.label)
+    .filter((query): query is string => !!query);
+  if (followups.length) tail.push(`Follow-up queries: ${followups.join(' | ')}`);
+  if (response.session_id) tail.push(`session_id: ${response.session_id}`);
+
+  const lines = recommendations.map((recommendation, i) => {
+    const details = [
+      recommendation.has_free_tier ? 'free tier' : null,
+      recommendation.trial_days ? `${recommendation.trial_days}-day trial` : null,
+      recommendation.pricing?.trim() || null,
+    ].filter(Boolean);
+    const reason = recommendation.reason ? ` - ${recommendation.reason}` : '';
+    const detailText = details.length ? ` (${details.join('; ')})` : '';
+    return `${i + 1}. ${recommendation.title}${reason}${detailText} ${recommendation.admesh_link}`;
+  });
+
+  // Always keep the first recommendation; drop later ones, then the tail, until the result fits.
+  const length = (parts: string[]) => parts.join('\n').length;
+  while (lines.length > 1 && length([...head, ...lines, ...tail]) > maxLength) lines.pop();
+  while (tail.length && length([...head, ...lines, ...tail]) > maxLength) tail.shift();
+
+  const text = [...head, ...lines, ...tail].join('\n');
+  return text.length > maxLength ? `${text.slice(0, Math.max(maxLength - 1, 0))}…` : text;
+}
+
+/**
+ * Replaces PII in the free-text arguments with placeholders, using `sanitizeAndBuild`.
+ */
+export function sanitizeRecommendToolInput(input: RecommendToolInput): RecommendToolInput {
+  const result = { ...input };
+  for (const key of ['query', 'previous_query', 'previous_summary'] as const) {
+    const value = input[key];
+    if (value) result[key] = sanitizeAndBuild(value).sanitized_text;
+  }
+  return result;
+}
+
+export interface RunRecommendToolOptions extends ToolResultOptions {
+  /**
+   * Request parameters to send with every call, e.g. `format`. The model's arguments take
+   * precedence.
+   */
+  params?: Partial<RecommendGetRecommendationsParamsNonStreaming> | undefined;
+
+  /**
+   * Remove PII from the model's arguments before they are sent to AdMesh.
+   * @default true
+   */
+  sanitize?: boolean | undefined;
+
+  requestOptions?: RequestOptions | undefined;
+}
+
+/**
+ * Validates the model's arguments, fetches recommendations and returns the tool result text.
+ * An empty response is reported to the model rather than thrown.
+ *
+ * @throws AdmeshError if the arguments are not valid
+ */
+export async function runRecommendTool(
+  client: Admesh,
+  input: unknown,
+  options: RunRecommendToolOptions = {},
+): Promise<{ response: RecommendGetRecommendationsResponse; content: string }> {
+  let args = parseRecommendToolInput(input);
+  if (options.sanitize ?? true) args = sanitizeRecommendToolInput(args);
+  const response = await client.recommend.getRecommendations(
+    { ...options.params, ...args, raiseOnEmptyRecommendations: false },
+    options.requestOptions,
+  );
+  return { response, content: formatToolResult(response, options) };
+}
@@ -30,6 +30,120 @@ export const PHONE_PATTERNS = [
   /\+\d{1,3}[-\s]?\d{1,14}\b/g,
 ];
 
+// Payment card numbers: 13 to 19 digits, optionally grouped by spaces or dashes. Checked with isValidLuhn.
+export const CREDIT_CARD_PATTERN = /\b(?:\d[ -]?){12,18}\d\b/g;
+
+// US Social Security numbers, excluding ranges that are never issued
+export const SSN_PATTERN = /\b(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}\b/g;
+
+// IBANs, optionally grouped by spaces. Checked with isValidIBAN.
+export const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g;
+
+export const IPV4_PATTERN =
+  /(?<![\d.])(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(?!\.?\d)/g;
+
+// Candidate IPv6 addresses. Checked with isValidIPv6.
+export const IPV6_PATTERN = /(?<![\w:])(?:[A-Fa-f0-9]{0,4}:){2,7}[A-Fa-f0-9]{0,4}(?![\w:])/g;
+
+// Passport numbers, which look like any other ID, so only when introduced as one
+export const PASSPORT_PATTERN =
+  /\bpassport(?:\s*(?:no\.?|number|num|#|id))?\s*(?:is|:|#)?\s*([A-Z0-9]{6,9})\b/gi;
+
+// API keys, by their provider's prefix
+export const API_KEY_PATTERNS = [
+  // OpenAI and Anthropic: sk-..., sk-proj-..., sk-ant-...
+  /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g,
+  // Stripe
+  /\b(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+  // AWS access key IDs
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  // GitHub
+  /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  // Slack
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  // Google
+  /\bAIza[0-9A-Za-z_-]{35}/g,
+];
+
+// Long random-looking tokens, which are likely secrets. Checked with looksLikeSecret.
+export const SECRET_TOKEN_PATTERN = /(?<![\w+/=-])[A-Za-z0-9_+/=-]{32,}(?![\w+/=-])/g;
+
+// Street names end in one of these words, e.g. "42 Elm Street", "221B Baker St"
+const STREET_SUFFIXES =
+  '(?:[Ss]treet|St|[Aa]venue|Ave|[Rr]oad|Rd|[Bb]oulevard|Blvd|[Ll]ane|Ln|[Dd]rive|Dr|[Cc]ourt|Ct|' +
+  '[Pp]lace|Pl|[Tt]errace|[Pp]arkway|Pkwy|[Hh]ighway|Hwy|[Ss]quare|Sq|[Cc]ircle|[Ww]ay)';
+
+// Street addresses: a house number, a capitalized street name and a suffix, optionally followed by a unit
+export const STREET_ADDRESS_PATTERN = new RegExp(
+  `\\b\\d{1,6}[A-Za-z]?\\s+(?:[A-Z][A-Za-z'-]*\\.?\\s+){1,3}${STREET_SUFFIXES}\\b` +
+    `(?:,?\\s*(?:Apt|Apartment|Suite|Ste|Unit|Flat|#)\\.?\\s*[A-Za-z0-9-]+)?`,
+  'g',
+);
+
+export const ADDRESS_PATTERNS = [
+  STREET_ADDRESS_PATTERN,
+  // PO boxes
+  /\bP\.?\s?O\.?\s+Box\s+\d+\b/gi,
+];
+
+// The UK postcode areas, e.g. "SW" in "SW1A 1AA"
+const UK_POSTCODE_AREA =
+  'A[BL]|B[ABDHLNRST]?|C[ABFHMORTVW]|D[ADEGHLNTY]|E[CHNX]?|F[KY]|G[LUY]?|H[ADGPRSUX]|I[GMPV]|JE|K[ATWY]|L[ADELNSU]?|M[EKL]?|N[EGNPRW]?|O[LX]|P[AEHLOR]|R[GHM]|S[AEGKLMNOPRSTWY]?|T[ADFNQRSW]|UB|W[ACDFNRSV]?|YO|ZE';
+
+// ZIP codes and postcodes, which look like any other number, so only US ZIP codes that follow
+// a state code, are introduced as one or follow "in", "near", "at" or "around", and UK and Canadian
+// postcodes, which have a distinctive shape
+export const POSTAL_CODE_PATTERNS = [
+  // "zip code 94105", "postcode: 10115"
+  /\b(?:[Zz]ip|ZIP|[Pp]ostal)(?:\s*[Cc]ode)?\s*(?:is|:|#)?\s*(\d{5}(?:-\d{4})?)\b/g,
+  /\b[Pp]ostcode\s*(?:is|:)?\s*(\d{4,5})\b/g,
+  // "Springfield, IL 62704"
+  /\b(?:A[KLRZ]|C[AOT]|D[CE]|FL|GA|HI|I[ADLN]|K[SY]|LA|M[ADEINOST]|N[CDEHJMVY]|O[HKR]|PA|RI|S[CD]|T[NX]|UT|V[AT]|W[AIVY])\s+(\d{5}(?:-\d{4})?)\b/g,
+  // "an app for dog walkers in 90210", but not "at 10000.5" or "in 12345%"
+  /\b(?:[Ii]n|[Nn]ear|[Aa]t|[Aa]round)\s+(\d{5}(?:-\d{4})?)\b(?![.,]\d|\s*%)/g,
+  // UK, e.g. "SW1A 1AA"; the area must be a real one, so "PS5 2TB" is not a postcode
+  new RegExp(`\\b((?:${UK_POSTCODE_AREA})\\d[A-Z\\d]?\\s?\\d[ABD-HJLNP-UW-Z]{2})\\b`, 'g'),
+  // Canada, e.g. "K1A 0B1"
+  /\b([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z]\s?\d[ABCEGHJ-NPRSTV-Z]\d)\b/g,
+];
+
+// Coordinates in decimal degrees, e.g. "40.7128, -74.0060" or "40.7128° N, 74.0060° W".
+// Checked with isValidCoordinates.
+export const DECIMAL_COORDINATES_PATTERN =
+  /(?<![\d.])-?\d{1,2}\.\d{3,}(?:\s*°)?(?:\s*[NS]\b)?\s*,\s*-?\d{1,3}\.\d{3,}(?:\s*°)?(?:\s*[EW]\b)?(?![\d.])/g;
+
+// Coordinates in degrees, minutes and seconds, e.g. 40°26′46″N 79°58′56″W
+export const DMS_COORDINATES_PATTERN =
+  /\b\d{1,2}°\s*\d{1,2}['′]\s*(?:\d{1,2}(?:\.\d+)?["″]\s*)?[NS],?\s*\d{1,3}°\s*\d{1,2}['′]\s*(?:\d{1,2}(?:\.\d+)?["″]\s*)?[EW]\b/g;
+
+// A place name: capitalized words, optionally followed by a region or country, e.g. "Austin, Texas"
+const PLACE =
+  "([A-Z][A-Za-z'-]+\\b(?:[ -][A-Z][A-Za-z'-]+\\b)*(?:,\\s*[A-Z][A-Za-z'-]+\\b(?:\\s[A-Z][A-Za-z'-]+\\b)*)?)";
+
+// Coarse location: the city, region or country the user mentions, which doesn't identify them
+export const LOCATION_PATTERNS = [
+  // "I live in Berlin", "based in Austin, Texas"
+  new RegExp(`\\b(?:live|living|based|located|reside|residing|staying)\\s+in\\s+${PLACE}`, 'g'),
+  // "I'm from Lagos", "we are from Canada"
+  new RegExp(`\\b(?:I'?m|I am|[Ww]e're|[Ww]e are)\\s+from\\s+${PLACE}`, 'g'),
+  // The city after a street address, e.g. "42 Elm Street, Springfield"
+  new RegExp(`${STREET_ADDRESS_PATTERN.source},\\s*${PLACE}`, 'g'),
+];
+
+// The placeholders that replace each type of detected PII
+export const PII_PLACEHOLDERS = {
+  names: '[NAME]',
+  emails: '[EMAIL]',
+  phones: '[PHONE]',
+  creditCards: '[CREDIT_CARD]',
+  ssns: '[SSN]',
+  ibans: '[IBAN]',
+  ipAddresses: '[IP_ADDRESS]',
+  passports: '[PASSPORT]',
+  apiKeys: '[API_KEY]',
+  addresses: '[ADDRESS]',
+} as const;
+
 // Context Extraction Patterns
 export const AGE_PATTERNS = [
   // "I'm 27", "I am 27", "27 years old", "27-year-old"
@@ -60,10 +174,22 @@ export const COMPILED_PATTERNS = {
   ages: AGE_PATTERNS,
   genders: GENDER_PATTERNS,
   goals: GOAL_PATTERNS,
+  addresses: ADDRESS_PATTERNS,
+  postalCodes: POSTAL_CODE_PATTERNS,
+  locations: LOCATION_PATTERNS,
 } as const;
 
 export const SINGLE_PATTERNS = {
   email: EMAIL_PATTERN,
+  creditCard: CREDIT_CARD_PATTERN,
+  ssn: SSN_PATTERN,
+  iban: IBAN_PATTERN,
+  ipv4: IPV4_PATTERN,
+  ipv6: IPV6_PATTERN,
+  passport: PASSPORT_PATTERN,
+  secretToken: SECRET_TOKEN_PATTERN,
+  decimalCoordinates: DECIMAL_COORDINATES_PATTERN,
+  dmsCoordinates: DMS_COORDINATES_PATTERN,
 } as const;
 
 // Common words to exclude from name detection (to reduce false positives)
@@ -91,8 +217,9 @@ export function isValidName(name: string): boolean {
     return false;
   }
   
-  // Check if it's a common word
-  if (COMMON_WORDS.has(name.toLowerCase().trim())) {
+  // Check if it's or starts with a common word, e.g. "from Berlin"
+  const words = name.toLowerCase().trim().split(/\s+/);
+  if (COMMON_WORDS.has(words.join(' ')) || (words[0] !== undefined && COMMON_WORDS.has(words[0]))) {
     return false;
   }
   
@@ -109,6 +236,95 @@ export function isValidName(name: string): boolean {
   return true;
 }
 
+/**
+ * Check a payment card number with the Luhn checksum.
+ * Spaces and dashes are ignored.
+ */
+export function isValidLuhn(cardNumber: string): boolean {
+  const digits = cardNumber.replace(/[ -]/g, '');
+  if (!/^\d{13,19}$/.test(digits) || /^0+$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Check an IBAN with its ISO 7064 mod 97 checksum.
+ * Spaces are ignored.
+ */
+export function isValidIBAN(iban: string): boolean {
+  const compact = iban.replace(/ /g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact)) {
+    return false;
+  }
+
+  // Move the country code and check digits to the end, and turn letters into numbers (A = 10).
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = parseInt(char, 36);
+    remainder = (remainder * (value > 9 ? 100 : 10) + value) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Check that a candidate IPv6 address has eight groups of up to four hex digits,
+ * or fewer with a single `::`.
+ */
+export function isValidIPv6(address: string): boolean {
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return false;
+  }
+
+  const groups = halves.flatMap((half) => (half === '' ? [] : half.split(':')));
+  if (!groups.every((group) => /^[A-Fa-f0-9]{1,4}$/.test(group))) {
+    return false;
+  }
+  return halves.length === 2 ? groups.length < 8 : groups.length === 8;
+}
+
+/**
+ * Check whether a long token looks random enough to be a secret: it mixes upper case letters,
+ * lower case letters and digits, with high Shannon entropy.
+ * Hex strings and UUIDs, which are often IDs rather than secrets, don't qualify.
+ */
+export function looksLikeSecret(token: string): boolean {
+  if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/\d/.test(token)) {
+    return false;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of token) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / token.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy >= 4;
+}
+
+/**
+ * Check that the latitude and longitude of decimal coordinates are in range.
+ */
+export function isValidCoordinates(coordinates: string): boolean {
+  const [latitude, longitude] = (coordinates.match(/\d+(?:\.\d+)?/g) ?? []).map(Number);
+  return latitude !== undefined && longitude !== undefined && latitude <= 90 && longitude <= 180;
+}
+
 /**
  * Normalize gender terms to standard values.
  */
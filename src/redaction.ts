@@ -0,0 +1,197 @@
+// File generated for AdMesh PII sanitization functionality
+
+/**
+ * Redaction strategies: how each type of detected PII is replaced in sanitized text.
+ */
+
+import { sha256Hex } from './internal/utils/sha256';
+import type { PIIEntity, PIIEntityType } from './sanitizer';
+
+/**
+ * How a piece of PII is replaced:
+ * - `'placeholder'` with its type, e.g. `[EMAIL]`, or its token when pseudonymizing, e.g. `[EMAIL_1]`;
+ * - `'mask'` with a partly masked value, e.g. `j***@gmail.com` or `***-***-1234`;
+ * - `'hash'` with a salted SHA-256 hash, e.g. `[EMAIL:3f2a9c1b5d7e4a6b]`, the same for the same value,
+ *   so that records can be joined on it;
+ * - `'remove'` with nothing, dropping the separators and brackets it leaves dangling;
+ * - `'synthesize'` with a realistic fake value, e.g. `alex.morgan@example.com`, for models downstream
+ *   that work better with natural text.
+ */
+export type RedactionStrategy = 'placeholder' | 'mask' | 'hash' | 'remove' | 'synthesize';
+
+export interface RedactionPolicy {
+  /**
+   * The strategy for each type of PII, e.g. `{ email: 'mask', name: 'synthesize' }`.
+   */
+  strategies?: Partial<Record<PIIEntityType, RedactionStrategy>> | undefined;
+
+  /**
+   * The strategy for types not in `strategies`.
+   * @default 'placeholder'
+   */
+  default?: RedactionStrategy | undefined;
+
+  /**
+   * The salt for the `'hash'` strategy, required to use it. Keep it secret: short values such as
+   * phone numbers are easy to recover from unsalted hashes.
+   */
+  hashSalt?: string | undefined;
+}
+
+/**
+ * Normalizes a value so that different spellings of the same PII are treated as one, e.g.
+ * `Priya@Gmail.com` and `priya@gmail.com`, or `(555) 123-4567` and `555.123.4567`.
+ */
+export function normalizePIIValue(type: PIIEntityType, value: string): string {
+  switch (type) {
+    case 'name':
+    case 'email':
+      return value.trim().toLowerCase();
+    case 'phone':
+    case 'credit_card':
+    case 'ssn':
+    case 'iban':
+      return value.replace(/[\s().-]/g, '').toUpperCase();
+    default:
+      return value.trim();
+  }
+}
+
+/**
+ * Partly masks a value, keeping enough of it to recognize, e.g. the last four digits of a card.
+ */
+export function maskValue({ type, value }: Pick<PIIEntity, 'type' | 'value'>): string {
+  switch (type) {
+    case 'name':
+      return value.replace(/([A-Za-z])[A-Za-z'-]*/g, '$1***');
+    case 'email': {
+      const at = value.lastIndexOf('@');
+      return `${value.charAt(0)}***${value.slice(at)}`;
+    }
+    case 'phone':
+      return `***-***-${value.replace(/\D/g, '').slice(-4)}`;
+    case 'credit_card':
+      return maskCharacters(value, /\d/, 0, 4);
+    case 'ssn':
+      return `***-**-${value.slice(-4)}`;
+    case 'iban':
+      return maskCharacters(value, /[A-Z0-9]/i, 2, 4);
+    case 'ip_address':
+      // Keep the first octet or group
+      return value.replace(/^([^.:]*)([.:])(.*)$/, (_, first, separator, rest: string) =>
+        [first, ...rest.split(/[.:]/).map((part) => (part === '' ? '' : '***'))].join(separator),
+      );
+    case 'passport':
+      return maskCharacters(value, /[A-Z0-9]/i, 0, 2);
+    case 'api_key':
+      return `${value.slice(0, 3)}***${value.slice(-4)}`;
+    case 'address':
+      return value.replace(/\d/g, '*');
+  }
+}
+
+// Masks the characters that match, except the first `keepStart` and last `keepEnd` of them
+function maskCharacters(value: string, pattern: RegExp, keepStart: number, keepEnd: number): string {
+  const total = [...value].filter((char) => pattern.test(char)).length;
+  let index = 0;
+  return [...value]
+    .map((char) => {
+      if (!pattern.test(char)) return char;
+      index++;
+      return index <= keepStart || index > total - keepEnd ? char : '*';
+    })
+    .join('');
+}
+
+/**
+ * Hashes a value with a salt, e.g. `[EMAIL:3f2a9c1b5d7e4a6b]`. Values are normalized first, so that
+ * `(555) 123-4567` and `555.123.4567` hash the same.
+ */
+export function hashValue({ type, value }: Pick<PIIEntity, 'type' | 'value'>, salt: string): string {
+  const digest = sha256Hex(`${salt}\u0000${type}\u0000${normalizePIIValue(type, value)}`);
+  return `[${type.toUpperCase()}:${digest.slice(0, 16)}]`;
+}
+
+const FIRST_NAMES = ['Alex', 'Sam', 'Jordan', 'Casey', 'Riley', 'Morgan', 'Taylor', 'Jamie'];
+const LAST_NAMES = ['Morgan', 'Lee', 'Brooks', 'Chen', 'Patel', 'Garcia', 'Novak', 'Okafor'];
+const STREETS = ['Main Street', 'Oak Avenue', 'Maple Road', 'Cedar Lane', 'Park Drive', 'Hill Street'];
+// Documentation and test values that are safe to show: Stripe's test cards, example IBANs, and the
+// address ranges reserved for documentation
+const CARDS = ['4242 4242 4242 4242', '4111 1111 1111 1111', '5555 5555 5555 4444'];
+const IBANS = [
+  'GB82 WEST 1234 5698 7654 32',
+  'DE89 3704 0044 0532 0130 00',
+  'FR14 2004 1010 0505 0001 3M02 606',
+];
+
+/**
+ * Replaces a value with a realistic fake one of the same type. The same value always gets the same
+ * fake, so that the text stays consistent.
+ */
+export function synthesizeValue({
+  type,
+  value,
+  detector,
+}: Pick<PIIEntity, 'type' | 'value' | 'detector'>): string {
+  const digest = sha256Hex(`${type}\u0000${normalizePIIValue(type, value)}`);
+  // Numbers taken from the digest, to pick from the lists and to make up digits
+  const pick = <T>(items: T[], offset = 0) =>
+    items[parseInt(digest.slice(offset, offset + 4), 16) % items.length]!;
+  const digits = (count: number, offset = 0) =>
+    Array.from({ length: count }, (_, i) => parseInt(digest[(offset + i) % digest.length]!, 16) % 10).join(
+      '',
+    );
+
+  const firstName = pick(FIRST_NAMES);
+  const lastName = pick(LAST_NAMES, 4);
+  switch (type) {
+    case 'name':
+      return value.trim().includes(' ') ? `${firstName} ${lastName}` : firstName;
+    case 'email':
+      return `${firstName}.${lastName}@example.com`.toLowerCase();
+    case 'phone':
+      // 555-0100 to 555-0199 are reserved for fiction
+      return `(${pick(['202', '312', '415', '617'])}) 555-01${digits(2)}`;
+    case 'credit_card':
+      return pick(CARDS);
+    case 'ssn':
+      // Social Security numbers never start with 9
+      return `9${digits(2)}-${digits(2, 2)}-${digits(4, 4)}`;
+    case 'iban':
+      return pick(IBANS);
+    case 'ip_address':
+      return value.includes(':') ? `2001:db8::${digits(2)}` : `192.0.2.${Number(digits(2)) + 1}`;
+    case 'passport':
+      return `X${digits(8)}`;
+    case 'api_key':
+      return `sk-example-${digest.slice(0, 24)}`;
+    case 'address':
+      if (detector === 'postal_code_pattern') return value.replace(/\d/g, '0');
+      if (detector === 'coordinates_pattern') return '0.0000, 0.0000';
+      return `${Number(digits(3)) + 1} ${pick(STREETS)}`;
+  }
+}
+
+/**
+ * Marks where the `'remove'` strategy removed a value, until `tidyRemovals` cleans up around it.
+ */
+export const REMOVED_MARKER = '\uE000';
+
+/**
+ * Drops the markers left by the `'remove'` strategy, with the separators and brackets they leave
+ * dangling, e.g. "I'm , email (a@b.com, )" becomes "I'm, email (a@b.com)".
+ */
+export function tidyRemovals(text: string): string {
+  return (
+    text
+      // "call me (555-123-4567) today" -> "call me today"
+      .replace(/\s*[([]\s*\uE000\s*[)\]]/g, '')
+      // "a, 555-123-4567, b" -> "a, b"
+      .replace(/\s*[,;]\s*\uE000\s*(?=[,;])/g, '')
+      // "(a@b.com, 555-123-4567)" -> "(a@b.com)"
+      .replace(/\s*[,;]\s*\uE000\s*(?=[)\]]|$)/g, '')
+      // "I'm John, email ..." -> "I'm, email ..."
+      .replace(/\s*\uE000\s*(?=[,.;:!?)\]])/g, '')
+      .replace(/\uE000/g, '')
+  );
+}
@@ -3,5 +3,26 @@
 export {
   Recommend,
   type RecommendGetRecommendationsResponse,
+  type RecommendStreamEvent,
   type RecommendGetRecommendationsParams,
+  type RecommendGetRecommendationsParamsNonStreaming,
+  type RecommendGetRecommendationsParamsStreaming,
+  type RecommendFollowUpParams,
 } from './recommend';
+export {
+  Sessions,
+  Session,
+  InMemorySessionStore,
+  KeyValueSessionStore,
+  type SessionState,
+  type SessionStore,
+  type KeyValueStore,
+  type SessionCreateParams,
+} from './sessions';
+export {
+  Tracking,
+  type TrackingOptions,
+  type TrackingEvent,
+  type TrackingEventParams,
+  type TrackingConversionParams,
+} from './tracking';
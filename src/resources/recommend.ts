@@ -3,15 +3,27 @@
 import { APIResource } from '../core/resource';
 import { APIPromise } from '../core/api-promise';
 import { RequestOptions } from '../internal/request-options';
-import { NoRecommendationsError } from '../core/error';
+import { AdmeshError, NoRecommendationsError } from '../core/error';
+import { Stream } from '../core/streaming';
+import { buildHeaders } from '../internal/headers';
+import { CACHED_REQUEST_LOG_ID, normalizeCacheKey } from '../core/cache';
+import { RecommendationStream } from '../lib/recommendation-stream';
+import { recommendResponseSchema } from '../lib/recommendation-schema';
 
 export class Recommend extends APIResource {
+  // The request and response each follow-up suggestion came from, to give follow-ups their context.
+  #followUpContext = new WeakMap<
+    RecommendGetRecommendationsResponse.FollowupSuggestion,
+    Pick<RecommendGetRecommendationsParamsBase, 'previous_query' | 'previous_summary'>
+  >();
+
   /**
    * Get monetized product/tool recommendations
    *
    * @param body - The request parameters
    * @param options - Additional request options
-   * @returns A promise that resolves to the recommendation response
+   * @returns A promise that resolves to the recommendation response, or to a
+   * `RecommendationStream` when `stream: true` is passed
    * @throws NoRecommendationsError if no recommendations are available and raiseOnEmptyRecommendations is true
    *
    * @example
@@ -21,26 +33,142 @@ export class Recommend extends APIResource {
    *   format: 'auto',
    * });
    * ```
+   *
+   * @example
+   * ```ts
+   * const stream = await client.recommend.getRecommendations({
+   *   query: 'Best CRM for remote teams',
+   *   stream: true,
+   * });
+   * for await (const event of stream) {
+   *   if (event.type === 'summary.delta') process.stdout.write(event.delta);
+   * }
+   * const response = await stream.finalResponse();
+   * ```
    */
+  getRecommendations(
+    body: RecommendGetRecommendationsParamsNonStreaming,
+    options?: RequestOptions,
+  ): APIPromise<RecommendGetRecommendationsResponse>;
+  getRecommendations(
+    body: RecommendGetRecommendationsParamsStreaming,
+    options?: RequestOptions,
+  ): APIPromise<RecommendationStream>;
+  getRecommendations(
+    body: RecommendGetRecommendationsParamsBase,
+    options?: RequestOptions,
+  ): APIPromise<RecommendGetRecommendationsResponse | RecommendationStream>;
   getRecommendations(
     body: RecommendGetRecommendationsParams,
     options?: RequestOptions,
-  ): APIPromise<RecommendGetRecommendationsResponse> {
+  ): APIPromise<RecommendGetRecommendationsResponse> | APIPromise<RecommendationStream> {
     const { raiseOnEmptyRecommendations = true, ...restBody } = body;
 
-    return this._client.post('/agent/recommend', { body: restBody, ...options }).then((response) => {
-      // Check if recommendations are empty or null
-      if (
-        raiseOnEmptyRecommendations &&
-        (!response.response ||
-          !response.response.recommendations ||
-          response.response.recommendations.length === 0)
-      ) {
-        throw new NoRecommendationsError({ message: `No recommendations available for query: ${body.query}` });
-      }
-
-      return response;
-    });
+    if (body.stream) {
+      return this._client
+        .post<Stream<RecommendStreamEvent>>('/agent/recommend', {
+          body: restBody,
+          ...options,
+          headers: buildHeaders([{ Accept: 'text/event-stream, application/x-ndjson' }, options?.headers]),
+          stream: true,
+        })
+        ._thenUnwrap(
+          (stream) =>
+            new RecommendationStream(stream, {
+              query: body.query,
+              raiseOnEmptyRecommendations,
+              onComplete: (response) => {
+                this._client.telemetry?.recordRecommendResponse(response);
+                this.rememberFollowUpContext(body.query, response);
+              },
+            }),
+        );
+    }
+
+    return this._client
+      .post<RecommendGetRecommendationsResponse>('/agent/recommend', {
+        body: restBody,
+        __cacheKey: normalizeCacheKey('/agent/recommend', { ...restBody, stream: undefined }),
+        __hedgeable: true,
+        __schema: recommendResponseSchema,
+        ...options,
+      })
+      ._thenUnwrap((response, props) => {
+        // Cached responses didn't use any tokens, and bodiless ones have nothing to record.
+        if (response && props.requestLogID !== CACHED_REQUEST_LOG_ID) {
+          this._client.telemetry?.recordRecommendResponse(response);
+        }
+        this.rememberFollowUpContext(body.query, response);
+
+        // Check if recommendations are empty or null
+        if (
+          raiseOnEmptyRecommendations &&
+          (!response?.response ||
+            !response.response.recommendations ||
+            response.response.recommendations.length === 0)
+        ) {
+          throw new NoRecommendationsError({
+            message: `No recommendations available for query: ${body.query}`,
+          });
+        }
+
+        return response;
+      });
+  }
+
+  /**
+   * Get recommendations for a follow-up suggestion from a previous response.
+   *
+   * The suggestion's `query` is sent with its `session_id`, so the server continues the same
+   * session, and with the query and summary of the response it came from as `previous_query` and
+   * `previous_summary`. Pass them in `params` for suggestions that didn't come from this client,
+   * e.g. after a round trip through your UI.
+   *
+   * @param suggestion - A follow-up suggestion from `response.followup_suggestions`
+   * @param params - Additional request parameters, which take precedence over the suggestion's
+   * @param options - Additional request options
+   * @returns A promise that rejects with an AdmeshError if the suggestion has neither a `query`
+   * nor a `label`
+   *
+   * @example
+   * ```ts
+   * const [suggestion] = response.response?.followup_suggestions ?? [];
+   * const next = await client.recommend.followUp(suggestion);
+   * ```
+   */
+  followUp(
+    suggestion: RecommendGetRecommendationsResponse.FollowupSuggestion,
+    params: RecommendFollowUpParams = {},
+    options?: RequestOptions,
+  ): APIPromise<RecommendGetRecommendationsResponse> {
+    const query = suggestion.query ?? suggestion.label;
+    if (!query) {
+      return new APIPromise(
+        this._client,
+        Promise.reject(new AdmeshError('Cannot follow up on a suggestion without a `query` or `label`.')),
+      );
+    }
+
+    return this.getRecommendations(
+      {
+        ...this.#followUpContext.get(suggestion),
+        ...(suggestion.session_id !== undefined && { session_id: suggestion.session_id }),
+        ...params,
+        query,
+      },
+      options,
+    );
+  }
+
+  private rememberFollowUpContext(query: string, response: RecommendGetRecommendationsResponse) {
+    // Responses without a body are parsed as `null`.
+    const summary = response?.response?.summary;
+    for (const suggestion of response?.response?.followup_suggestions ?? []) {
+      this.#followUpContext.set(suggestion, {
+        previous_query: query,
+        ...(summary !== undefined && { previous_summary: summary }),
+      });
+    }
   }
 }
 
@@ -138,7 +266,74 @@ export namespace RecommendGetRecommendationsResponse {
   }
 }
 
-export interface RecommendGetRecommendationsParams {
+/**
+ * An event emitted while streaming a recommendation response.
+ */
+export type RecommendStreamEvent =
+  | RecommendStreamEvent.SummaryDelta
+  | RecommendStreamEvent.Recommendation
+  | RecommendStreamEvent.FollowupSuggestion
+  | RecommendStreamEvent.Metadata
+  | RecommendStreamEvent.Done;
+
+export namespace RecommendStreamEvent {
+  /**
+   * A chunk of summary text, to be appended to the text received so far.
+   */
+  export interface SummaryDelta {
+    type: 'summary.delta';
+
+    delta: string;
+  }
+
+  /**
+   * A single recommendation, sent as soon as it is available.
+   */
+  export interface Recommendation {
+    type: 'recommendation';
+
+    recommendation: RecommendGetRecommendationsResponse.Response.Recommendation;
+  }
+
+  export interface FollowupSuggestion {
+    type: 'followup_suggestion';
+
+    followup_suggestion: RecommendGetRecommendationsResponse.FollowupSuggestion;
+  }
+
+  /**
+   * Top-level response fields, which may arrive at any point in the stream.
+   */
+  export interface Metadata {
+    type: 'metadata';
+
+    intent?: RecommendGetRecommendationsResponse.Intent;
+
+    tokens_used?: number;
+
+    model_used?: string;
+
+    recommendation_id?: string;
+
+    session_id?: string;
+
+    end_of_session?: boolean;
+  }
+
+  /**
+   * Sent once the server has finished; may carry the complete response.
+   */
+  export interface Done {
+    type: 'done';
+
+    response?: RecommendGetRecommendationsResponse;
+  }
+}
+
+export type RecommendGetRecommendationsParams =
+  RecommendGetRecommendationsParamsNonStreaming | RecommendGetRecommendationsParamsStreaming;
+
+export interface RecommendGetRecommendationsParamsBase {
   query: string;
 
   format?: string | null;
@@ -149,6 +344,11 @@ export interface RecommendGetRecommendationsParams {
 
   session_id?: string | null;
 
+  /**
+   * If set, the response is streamed back as a series of `RecommendStreamEvent`s.
+   */
+  stream?: boolean | null;
+
   /**
    * Whether to raise a NoRecommendationsError when no recommendations are available.
    * @default true
@@ -156,9 +356,32 @@ export interface RecommendGetRecommendationsParams {
   raiseOnEmptyRecommendations?: boolean;
 }
 
+export interface RecommendGetRecommendationsParamsNonStreaming extends RecommendGetRecommendationsParamsBase {
+  /**
+   * If set, the response is streamed back as a series of `RecommendStreamEvent`s.
+   */
+  stream?: false | null;
+}
+
+export interface RecommendGetRecommendationsParamsStreaming extends RecommendGetRecommendationsParamsBase {
+  /**
+   * If set, the response is streamed back as a series of `RecommendStreamEvent`s.
+   */
+  stream: true;
+}
+
+export interface RecommendFollowUpParams extends Omit<
+  RecommendGetRecommendationsParamsNonStreaming,
+  'query' | 'stream'
+> {}
+
 export declare namespace Recommend {
   export {
     type RecommendGetRecommendationsResponse as RecommendGetRecommendationsResponse,
+    type RecommendStreamEvent as RecommendStreamEvent,
     type RecommendGetRecommendationsParams as RecommendGetRecommendationsParams,
+    type RecommendGetRecommendationsParamsNonStreaming as RecommendGetRecommendationsParamsNonStreaming,
+    type RecommendGetRecommendationsParamsStreaming as RecommendGetRecommendationsParamsStreaming,
+    type RecommendFollowUpParams as RecommendFollowUpParams,
   };
 }
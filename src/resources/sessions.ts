@@ -0,0 +1,271 @@
+import { APIResource } from '../core/resource';
+import { SessionEndedError } from '../core/error';
+import { RequestOptions } from '../internal/request-options';
+import type { PromiseOrValue } from '../internal/types';
+import { uuid4 } from '../internal/utils/uuid';
+import type { Admesh } from '../client';
+import type { RecommendGetRecommendationsResponse } from './recommend';
+
+export class Sessions extends APIResource {
+  #defaultStore: SessionStore | undefined;
+
+  /**
+   * Create a conversation session which threads `session_id`, `previous_query` and
+   * `previous_summary` through successive recommendation calls.
+   *
+   * Passing the `key` of an existing session resumes it from the store, so servers sharing a
+   * store (e.g. Redis) can pick up a conversation started on another instance.
+   *
+   * @example
+   * ```ts
+   * const session = client.sessions.create({ key: conversationId });
+   * const first = await session.ask('Best CRM for remote teams');
+   * const second = await session.ask('Which of those has a free tier?');
+   * ```
+   */
+  create(params: SessionCreateParams = {}): Session {
+    const store = params.store ?? this.defaultStore();
+    return new Session(this._client, store, params);
+  }
+
+  private defaultStore(): SessionStore {
+    return (this.#defaultStore ??= this._client.sessionStore ?? new InMemorySessionStore());
+  }
+}
+
+/**
+ * A conversation with the recommendation endpoint.
+ *
+ * The session state is re-read from the store before every `ask()` and written back after it,
+ * so concurrent `ask()` calls for the same key may overwrite each other's state.
+ */
+export class Session {
+  /**
+   * The key under which the session state is persisted in the store.
+   */
+  readonly key: string;
+
+  #client: Admesh;
+  #store: SessionStore;
+  #params: SessionCreateParams;
+
+  constructor(client: Admesh, store: SessionStore, params: SessionCreateParams = {}) {
+    this.#client = client;
+    this.#store = store;
+    this.#params = params;
+    this.key = params.key ?? `sess_${uuid4()}`;
+  }
+
+  /**
+   * Get recommendations for the next message in the conversation.
+   *
+   * @throws SessionEndedError if the server ended the session and `onEndOfSession` is `'refuse'`
+   */
+  async ask(query: string, options?: RequestOptions): Promise<RecommendGetRecommendationsResponse> {
+    let state = await this.getState();
+
+    if (state.ended) {
+      if (this.#params.onEndOfSession === 'refuse') {
+        throw new SessionEndedError({ message: `Session ${this.key} has ended; create a new session.` });
+      }
+      state = emptyState(this.key);
+    }
+
+    const response = await this.#client.recommend.getRecommendations(
+      {
+        query,
+        session_id: state.session_id,
+        previous_query: state.previous_query,
+        previous_summary: state.previous_summary,
+        ...(this.#params.format !== undefined && { format: this.#params.format }),
+        ...(this.#params.raiseOnEmptyRecommendations !== undefined && {
+          raiseOnEmptyRecommendations: this.#params.raiseOnEmptyRecommendations,
+        }),
+      },
+      options,
+    );
+
+    await this.#store.set(this.key, {
+      key: this.key,
+      session_id: response.session_id ?? state.session_id,
+      previous_query: query,
+      previous_summary: response.response?.summary ?? null,
+      ended: response.end_of_session ?? false,
+      updated_at: Date.now(),
+    });
+
+    return response;
+  }
+
+  /**
+   * The persisted state of this session, or a fresh state if nothing was stored yet.
+   */
+  async getState(): Promise<SessionState> {
+    return (await this.#store.get(this.key)) ?? emptyState(this.key);
+  }
+
+  /**
+   * Forget the conversation so that the next `ask()` starts a new server-side session.
+   */
+  async reset(): Promise<void> {
+    await this.#store.delete(this.key);
+  }
+}
+
+function emptyState(key: string): SessionState {
+  return {
+    key,
+    session_id: null,
+    previous_query: null,
+    previous_summary: null,
+    ended: false,
+    updated_at: Date.now(),
+  };
+}
+
+export interface SessionState {
+  key: string;
+
+  session_id: string | null;
+
+  previous_query: string | null;
+
+  previous_summary: string | null;
+
+  /**
+   * Whether the server signalled `end_of_session` on the last response.
+   */
+  ended: boolean;
+
+  /**
+   * Milliseconds since the epoch at which the state was last written.
+   */
+  updated_at: number;
+}
+
+/**
+ * Persists session state between `ask()` calls.
+ */
+export interface SessionStore {
+  get(key: string): PromiseOrValue<SessionState | null | undefined>;
+
+  set(key: string, state: SessionState): PromiseOrValue<void>;
+
+  delete(key: string): PromiseOrValue<void>;
+}
+
+/**
+ * Keeps session state in process memory. This is the default store.
+ */
+export class InMemorySessionStore implements SessionStore {
+  #states = new Map<string, SessionState>();
+
+  get(key: string): SessionState | undefined {
+    const state = this.#states.get(key);
+    return state && { ...state };
+  }
+
+  set(key: string, state: SessionState): void {
+    this.#states.set(key, { ...state });
+  }
+
+  delete(key: string): void {
+    this.#states.delete(key);
+  }
+}
+
+/**
+ * A string key-value store such as a `Map` or a Redis client.
+ */
+export interface KeyValueStore {
+  get(key: string): PromiseOrValue<string | null | undefined>;
+
+  set(key: string, value: string): PromiseOrValue<unknown>;
+
+  /**
+   * Falls back to `del`, as named by most Redis clients, when `delete` is not defined.
+   */
+  delete?(key: string): PromiseOrValue<unknown>;
+
+  del?(key: string): PromiseOrValue<unknown>;
+}
+
+/**
+ * Adapts a string key-value store to a `SessionStore`, serializing state as JSON.
+ *
+ * @example
+ * ```ts
+ * const client = new Admesh({
+ *   sessionStore: new KeyValueSessionStore(redis, { prefix: 'admesh:session:' }),
+ * });
+ * ```
+ */
+export class KeyValueSessionStore implements SessionStore {
+  #store: KeyValueStore;
+  #prefix: string;
+
+  constructor(store: KeyValueStore, { prefix = '' }: { prefix?: string } = {}) {
+    this.#store = store;
+    this.#prefix = prefix;
+  }
+
+  async get(key: string): Promise<SessionState | null> {
+    const value = await this.#store.get(this.#prefix + key);
+    return value ? (JSON.parse(value) as SessionState) : null;
+  }
+
+  async set(key: string, state: SessionState): Promise<void> {
+    await this.#store.set(this.#prefix + key, JSON.stringify(state));
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.#store.delete) {
+      await this.#store.delete(this.#prefix + key);
+    } else {
+      await this.#store.del?.(this.#prefix + key);
+    }
+  }
+}
+
+export interface SessionCreateParams {
+  /**
+   * Identifies the session in the store. Pass the key of an existing session to resume it.
+   *
+   * Defaults to a random key.
+   */
+  key?: string;
+
+  /**
+   * Where to persist the session state. Defaults to `ClientOptions.sessionStore`, or an
+   * in-memory store shared by the client's sessions.
+   */
+  store?: SessionStore;
+
+  /**
+   * What to do when the server has signalled `end_of_session`:
+   * - `'rotate'` starts a new server-side session on the next `ask()`
+   * - `'refuse'` makes `ask()` throw a `SessionEndedError`
+   *
+   * @default 'rotate'
+   */
+  onEndOfSession?: 'rotate' | 'refuse';
+
+  /**
+   * The `format` to request for every message in the session.
+   */
+  format?: string | null;
+
+  /**
+   * Whether to raise a NoRecommendationsError when no recommendations are available.
+   * @default true
+   */
+  raiseOnEmptyRecommendations?: boolean;
+}
+
+export declare namespace Sessions {
+  export {
+    type SessionState as SessionState,
+    type SessionStore as SessionStore,
+    type SessionCreateParams as SessionCreateParams,
+  };
+}
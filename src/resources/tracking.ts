@@ -0,0 +1,366 @@
+import { APIResource } from '../core/resource';
+import { AdmeshError, APIError } from '../core/error';
+import { RequestOptions } from '../internal/request-options';
+import { uuid4 } from '../internal/utils/uuid';
+import { loggerFor } from '../internal/utils/log';
+import { buildHeaders } from '../internal/headers';
+import {
+  EventOutbox,
+  MemoryOutboxStorage,
+  defaultOutboxStorage,
+  type OutboxBatch,
+  type OutboxStorage,
+} from '../lib/outbox';
+
+export class Tracking extends APIResource {
+  #outbox: EventOutbox | undefined;
+  #timer: ReturnType<typeof setInterval> | undefined;
+  #flushing: Promise<void> | undefined;
+  #exitHandler: (() => void) | undefined;
+
+  /**
+   * Record that a recommendation was shown to the user.
+   *
+   * Events are queued and sent in batches; see `ClientOptions.tracking`.
+   *
+   * @example
+   * ```ts
+   * for (const rec of response.response?.recommendations ?? []) {
+   *   client.tracking.impression({ ...rec, recommendation_id: response.recommendation_id });
+   * }
+   * ```
+   */
+  impression(params: TrackingEventParams): TrackingEvent {
+    return this.enqueue('impression', params);
+  }
+
+  /**
+   * Record that the user followed a recommendation's `admesh_link`.
+   */
+  click(params: TrackingEventParams): TrackingEvent {
+    return this.enqueue('click', params);
+  }
+
+  /**
+   * Record that a recommendation led to a conversion, e.g. a sign-up or purchase.
+   */
+  conversion(params: TrackingConversionParams): TrackingEvent {
+    return this.enqueue('conversion', params);
+  }
+
+  /**
+   * The number of events waiting to be sent.
+   */
+  get pending(): number {
+    return this.outbox().size;
+  }
+
+  /**
+   * Send all queued events now.
+   *
+   * Failed requests are retried like any other request; a batch that still fails stays at the
+   * front of the outbox, to be re-sent with the same idempotency key, and the error is rethrown.
+   */
+  flush(options?: RequestOptions): Promise<void> {
+    const previous = this.#flushing ?? Promise.resolve();
+    const flushing = previous
+      .catch(() => {})
+      .then(() => this.sendAll(options))
+      .finally(() => {
+        if (this.#flushing === flushing) this.#flushing = undefined;
+      });
+    this.#flushing = flushing;
+    return flushing;
+  }
+
+  /**
+   * Stop the flush timer and exit hook, then send any queued events.
+   */
+  async shutdown(options?: RequestOptions): Promise<void> {
+    this.stopTimer();
+    await this.flush(options);
+  }
+
+  private enqueue(type: TrackingEvent['type'], params: TrackingConversionParams): TrackingEvent {
+    if (!params.ad_id && !params.recommendation_id) {
+      throw new AdmeshError(`A ${type} event requires an \`ad_id\` or a \`recommendation_id\`.`);
+    }
+
+    const event: TrackingEvent = {
+      event_id: uuid4(),
+      type,
+      timestamp: new Date().toISOString(),
+      ...pick(params, EVENT_FIELDS),
+    };
+
+    const { batchSize } = this.options();
+    const outbox = this.outbox();
+    const dropped = outbox.add(event);
+    if (dropped.length) {
+      loggerFor(this._client).warn(`Tracking queue is full; dropped ${dropped.length} oldest event(s)`);
+    }
+
+    if (outbox.size >= batchSize) {
+      this.flushInBackground();
+    } else {
+      this.startTimer();
+    }
+    return event;
+  }
+
+  private async sendAll(options?: RequestOptions): Promise<void> {
+    const { batchSize } = this.options();
+    const outbox = this.outbox();
+    let batch: OutboxBatch | null;
+    while ((batch = await outbox.nextBatch(batchSize))) {
+      try {
+        await this.send(batch, options);
+      } catch (err) {
+        if (await outbox.nack(batch, { retryable: !isRejected(err) })) {
+          loggerFor(this._client).warn(
+            `Dropped ${batch.events.length} tracking event(s) that could not be sent after ${batch.attempts} attempt(s)`,
+            err,
+          );
+          continue;
+        }
+        throw err;
+      }
+      await outbox.ack(batch);
+    }
+  }
+
+  /**
+   * Send a batch of events to the API.
+   */
+  protected async send(batch: OutboxBatch, options?: RequestOptions): Promise<void> {
+    await this._client.post('/agent/events', {
+      body: { events: batch.events },
+      ...options,
+      // Replays of the batch reuse its key, so the server can discard duplicates.
+      idempotencyKey: batch.idempotency_key,
+      headers: buildHeaders([{ 'Idempotency-Key': batch.idempotency_key }, options?.headers]),
+    });
+  }
+
+  private outbox(): EventOutbox {
+    if (!this.#outbox) {
+      const { outbox, maxQueueSize, maxBatchAttempts } = this.options();
+      const storage =
+        outbox === true ? defaultOutboxStorage(this._client.credentialsHash)
+        : outbox ? outbox
+        : new MemoryOutboxStorage();
+
+      this.#outbox = new EventOutbox(storage, {
+        idempotencyKey: () => this._client.generateIdempotencyKey(),
+        maxEvents: maxQueueSize,
+        maxAttempts: maxBatchAttempts,
+      });
+      this.#outbox.onError = (err) => {
+        loggerFor(this._client).warn(`Failed to persist the tracking outbox`, err);
+      };
+      // Send anything left over from a previous run.
+      this.#outbox.ready().then(() => {
+        if (this.#outbox!.size) this.startTimer();
+      });
+    }
+    return this.#outbox;
+  }
+
+  private flushInBackground() {
+    this.flush().catch((err) => {
+      loggerFor(this._client).warn(`Failed to send tracking events; will retry on the next flush`, err);
+    });
+  }
+
+  private startTimer() {
+    const { flushInterval, flushOnExit } = this.options();
+    if (!this.#timer && flushInterval > 0) {
+      this.#timer = setInterval(() => {
+        if (this.outbox().size) this.flushInBackground();
+      }, flushInterval);
+      // Don't keep the process alive just to flush events.
+      (this.#timer as any).unref?.();
+    }
+
+    const process = (globalThis as any).process;
+    if (!this.#exitHandler && flushOnExit && typeof process?.once === 'function') {
+      // `beforeExit` is emitted when the event loop empties, so the flush can still make requests.
+      this.#exitHandler = () => {
+        this.#exitHandler = undefined;
+        if (this.outbox().size) this.flushInBackground();
+      };
+      process.once('beforeExit', this.#exitHandler);
+    }
+  }
+
+  private stopTimer() {
+    if (this.#timer) {
+      clearInterval(this.#timer);
+      this.#timer = undefined;
+    }
+    if (this.#exitHandler) {
+      (globalThis as any).process?.removeListener?.('beforeExit', this.#exitHandler);
+      this.#exitHandler = undefined;
+    }
+  }
+
+  private options(): Required<TrackingOptions> {
+    const options = this._client.trackingOptions;
+    return {
+      batchSize: options?.batchSize ?? 20,
+      flushInterval: options?.flushInterval ?? 5000,
+      maxQueueSize: options?.maxQueueSize ?? 1000,
+      maxBatchAttempts: options?.maxBatchAttempts ?? 5,
+      flushOnExit: options?.flushOnExit ?? true,
+      outbox: options?.outbox ?? false,
+    };
+  }
+}
+
+const EVENT_FIELDS = [
+  'ad_id',
+  'recommendation_id',
+  'product_id',
+  'session_id',
+  'admesh_link',
+  'value',
+  'currency',
+  'metadata',
+] as const;
+
+/**
+ * Whether the API rejected the events, e.g. as invalid, so that sending them again can't succeed.
+ * Like the default retry policy, request timeouts, conflicts and rate limits aren't final.
+ */
+function isRejected(err: unknown): boolean {
+  return (
+    err instanceof APIError &&
+    err.status !== undefined &&
+    err.status >= 400 &&
+    err.status < 500 &&
+    ![408, 409, 429].includes(err.status)
+  );
+}
+
+/** Copies the given keys of `obj`, leaving out `undefined` values. */
+function pick<T extends object, K extends keyof T>(
+  obj: T,
+  keys: ReadonlyArray<K>,
+): { [P in K]?: Exclude<T[P], undefined> } {
+  const result: { [P in K]?: Exclude<T[P], undefined> } = {};
+  for (const key of keys) {
+    if (obj[key] !== undefined) result[key] = obj[key] as Exclude<T[K], undefined>;
+  }
+  return result;
+}
+
+export interface TrackingOptions {
+  /**
+   * Send queued events as soon as this many are waiting.
+   * @default 20
+   */
+  batchSize?: number;
+
+  /**
+   * How often (in milliseconds) to send queued events; `0` disables the timer.
+   * @default 5000
+   */
+  flushInterval?: number;
+
+  /**
+   * The most events to hold; the oldest are dropped beyond this.
+   * @default 1000
+   */
+  maxQueueSize?: number;
+
+  /**
+   * How many times to try sending a batch, across flushes, before dropping it so that it doesn't
+   * hold up the events behind it. Batches the API rejects with a client error, such as a `400`,
+   * are dropped right away.
+   * @default 5
+   */
+  maxBatchAttempts?: number;
+
+  /**
+   * Whether to send queued events when a Node.js process is about to exit.
+   * @default true
+   */
+  flushOnExit?: boolean;
+
+  /**
+   * Persist queued events so they survive restarts and connectivity loss.
+   *
+   * `true` picks storage for the current runtime: a file on Node.js, IndexedDB or
+   * `localStorage` in browsers, and memory elsewhere, kept apart for each API key and base URL.
+   * Pass an `OutboxStorage` to choose.
+   *
+   * @default false
+   */
+  outbox?: boolean | OutboxStorage;
+}
+
+export interface TrackingEvent {
+  event_id: string;
+
+  type: 'impression' | 'click' | 'conversion';
+
+  /**
+   * ISO 8601 time at which the event was recorded.
+   */
+  timestamp: string;
+
+  ad_id?: string;
+
+  recommendation_id?: string;
+
+  product_id?: string;
+
+  session_id?: string;
+
+  admesh_link?: string;
+
+  value?: number;
+
+  currency?: string;
+
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Identifies the recommendation an event is about. At least one of `ad_id` and
+ * `recommendation_id` is required; a `Recommendation` object can be passed as-is.
+ */
+export interface TrackingEventParams {
+  ad_id?: string | undefined;
+
+  recommendation_id?: string | undefined;
+
+  product_id?: string | undefined;
+
+  session_id?: string | undefined;
+
+  admesh_link?: string | undefined;
+
+  metadata?: Record<string, unknown> | undefined;
+}
+
+export interface TrackingConversionParams extends TrackingEventParams {
+  /**
+   * The monetary value of the conversion.
+   */
+  value?: number | undefined;
+
+  /**
+   * ISO 4217 currency code for `value`.
+   */
+  currency?: string | undefined;
+}
+
+export declare namespace Tracking {
+  export {
+    type TrackingOptions as TrackingOptions,
+    type TrackingEvent as TrackingEvent,
+    type TrackingEventParams as TrackingEventParams,
+    type TrackingConversionParams as TrackingConversionParams,
+  };
+}
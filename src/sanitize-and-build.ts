@@ -5,21 +5,71 @@
  * Provides the primary sanitizeAndBuild function for the AdMesh TypeScript SDK.
  */
 
-import { PIISanitizer } from './sanitizer';
+import { PIISanitizer, type PIIEntity, type PIIEntityType } from './sanitizer';
 import { PromptBuilder } from './builder';
+import type { RedactionPolicy, RedactionStrategy } from './redaction';
+import { PseudonymVault } from './vault';
 
 interface SanitizeAndBuildResult {
   prompt: string;
+  /**
+   * The input with detected PII replaced by placeholders such as `[EMAIL]`, otherwise unchanged.
+   */
+  sanitized_text: string;
+  /**
+   * The first value of each type of PII that was removed.
+   */
   removed: {
     name: string | null;
     email: string | null;
     phone: string | null;
+    credit_card: string | null;
+    ssn: string | null;
+    iban: string | null;
+    ip_address: string | null;
+    passport: string | null;
+    api_key: string | null;
+    address: string | null;
   };
+  /**
+   * Every piece of PII that was removed, with its offsets in the input, e.g. for highlighting.
+   */
+  entities: PIIEntity[];
   extracted_context: {
     age: number | null;
     gender: string | null;
     goal: string | null;
+    /**
+     * The city, region or country the user mentioned. Unlike addresses, it's kept in the prompt.
+     */
+    location: string | null;
   };
+  /**
+   * The vault holding the values behind the tokens in `prompt` and `sanitized_text`, when
+   * pseudonymizing.
+   */
+  vault?: PseudonymVault;
+}
+
+interface SanitizeAndBuildOptions {
+  /**
+   * Replace PII with numbered tokens such as `[NAME_1]` rather than placeholders such as `[NAME]`,
+   * so that they can be mapped back with `result.vault.restore(text)`.
+   */
+  pseudonymize?: boolean | undefined;
+
+  /**
+   * The vault to keep tokens in, e.g. one per conversation session, so that the same value gets the
+   * same token in every message. Implies `pseudonymize`.
+   */
+  vault?: PseudonymVault | undefined;
+
+  /**
+   * How each type of PII is replaced in `sanitized_text`, e.g.
+   * `{ strategies: { email: 'mask', credit_card: 'hash' }, hashSalt }`. Tokens are only used for
+   * types replaced with placeholders, the default.
+   */
+  redaction?: RedactionPolicy | undefined;
 }
 
 /**
@@ -34,6 +84,7 @@ interface SanitizeAndBuildResult {
  * All processing is done locally without external API calls to ensure privacy.
  * 
  * @param userInput - Raw user input containing potential PII
+ * @param options - Whether to pseudonymize PII, the vault to use, and how to redact each type of PII
  * @returns Object containing sanitized prompt, removed PII, and extracted context
  * 
  * @example
@@ -42,15 +93,28 @@ interface SanitizeAndBuildResult {
  * console.log(result);
  * // {
  * //   "prompt": "Suggest tools for a 27-year-old female building a wellness app.",
+ * //   "sanitized_text": "Hi, I'm [NAME] ([EMAIL]). I'm a 27-year-old female building a wellness app.",
  * //   "removed": {
  * //     "name": "Priya",
  * //     "email": "priya@gmail.com",
- * //     "phone": null
+ * //     "phone": null,
+ * //     "credit_card": null,
+ * //     "ssn": null,
+ * //     "iban": null,
+ * //     "ip_address": null,
+ * //     "passport": null,
+ * //     "api_key": null,
+ * //     "address": null
  * //   },
+ * //   "entities": [
+ * //     { "type": "name", "value": "Priya", "start": 8, "end": 13, "confidence": 0.7, "detector": "name_pattern" },
+ * //     { "type": "email", "value": "priya@gmail.com", "start": 15, "end": 30, "confidence": 0.95, "detector": "email_pattern" }
+ * //   ],
  * //   "extracted_context": {
  * //     "age": 27,
  * //     "gender": "female", 
- * //     "goal": "building a wellness app"
+ * //     "goal": "building a wellness app",
+ * //     "location": null
  * //   }
  * // }
  * ```
@@ -66,33 +130,49 @@ interface SanitizeAndBuildResult {
  * - Memory usage: Minimal, patterns are pre-compiled
  * - No network requests during processing
  */
-export function sanitizeAndBuild(userInput: string): SanitizeAndBuildResult {
+export function sanitizeAndBuild(
+  userInput: string,
+  options: SanitizeAndBuildOptions = {},
+): SanitizeAndBuildResult {
+  const vault = options.vault ?? (options.pseudonymize ? new PseudonymVault() : undefined);
+
   // Validate input
   if (!userInput || typeof userInput !== 'string') {
     return {
       prompt: 'Suggest relevant tools and services.',
+      sanitized_text: '',
       removed: {
         name: null,
         email: null,
         phone: null,
+        credit_card: null,
+        ssn: null,
+        iban: null,
+        ip_address: null,
+        passport: null,
+        api_key: null,
+        address: null,
       },
+      entities: [],
       extracted_context: {
         age: null,
         gender: null,
         goal: null,
+        location: null,
       },
+      ...(vault && { vault }),
     };
   }
   
   // Initialize sanitizer and builder
-  const sanitizer = new PIISanitizer();
+  const sanitizer = new PIISanitizer({ redaction: options.redaction });
   const builder = new PromptBuilder();
   
   // Perform PII analysis
-  const analysisResult = sanitizer.analyzeText(userInput);
+  const analysisResult = sanitizer.analyzeText(userInput, { vault });
   
   // Extract components
-  const { sanitizedText, detectedPII, extractedContext } = analysisResult;
+  const { sanitizedText, detectedPII, entities, extractedContext } = analysisResult;
   
   // Build structured prompt
   const prompt = builder.buildCompletePrompt(sanitizedText, extractedContext);
@@ -103,8 +183,11 @@ export function sanitizeAndBuild(userInput: string): SanitizeAndBuildResult {
   // Return structured result
   return {
     prompt,
+    sanitized_text: sanitizedText,
     removed: removedPII,
+    entities,
     extracted_context: extractedContext,
+    ...(vault && { vault }),
   };
 }
 
@@ -112,11 +195,22 @@ export function sanitizeAndBuild(userInput: string): SanitizeAndBuildResult {
  * Alias for sanitizeAndBuild function for backward compatibility.
  * 
  * @param userInput - Raw user input containing potential PII
+ * @param options - Same options as sanitizeAndBuild
  * @returns Same structure as sanitizeAndBuild
  */
-export function sanitizeUserInput(userInput: string): SanitizeAndBuildResult {
-  return sanitizeAndBuild(userInput);
+export function sanitizeUserInput(
+  userInput: string,
+  options: SanitizeAndBuildOptions = {},
+): SanitizeAndBuildResult {
+  return sanitizeAndBuild(userInput, options);
 }
 
 // Export types for external use
-export type { SanitizeAndBuildResult };
+export type {
+  SanitizeAndBuildResult,
+  SanitizeAndBuildOptions,
+  PIIEntity,
+  PIIEntityType,
+  RedactionPolicy,
+  RedactionStrategy,
+};
@@ -8,35 +8,147 @@
 import {
   COMPILED_PATTERNS,
   SINGLE_PATTERNS,
+  API_KEY_PATTERNS,
+  PII_PLACEHOLDERS,
   isValidName,
+  isValidLuhn,
+  isValidIBAN,
+  isValidIPv6,
+  isValidCoordinates,
+  looksLikeSecret,
   normalizeGender,
   extractGoalText,
 } from './patterns';
+import { AdmeshError } from './core/error';
+import {
+  type RedactionPolicy,
+  type RedactionStrategy,
+  REMOVED_MARKER,
+  hashValue,
+  maskValue,
+  synthesizeValue,
+  tidyRemovals,
+} from './redaction';
+import type { PseudonymVault } from './vault';
+
+export type PIIEntityType =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'credit_card'
+  | 'ssn'
+  | 'iban'
+  | 'ip_address'
+  | 'passport'
+  | 'api_key'
+  | 'address';
+
+/**
+ * A piece of PII found in the input text.
+ */
+export interface PIIEntity {
+  type: PIIEntityType;
+  /**
+   * The text as written in the input, i.e. `input.slice(start, end)`.
+   */
+  value: string;
+  start: number;
+  end: number;
+  /**
+   * How likely the value is to be PII of this type, from 0 to 1.
+   */
+  confidence: number;
+  /**
+   * What found the entity, e.g. `'luhn'` for a card number that passed the Luhn check, or
+   * `'name_repeat'` for another mention of a name introduced earlier.
+   */
+  detector: string;
+}
 
 interface DetectedPII {
   names: string[];
   emails: string[];
   phones: string[];
+  creditCards: string[];
+  ssns: string[];
+  ibans: string[];
+  ipAddresses: string[];
+  passports: string[];
+  apiKeys: string[];
+  addresses: string[];
 }
 
 interface ExtractedContext {
   age: number | null;
   gender: string | null;
   goal: string | null;
+  /**
+   * The city, region or country the user mentioned, e.g. "Austin, Texas".
+   * Coarse enough not to identify them, so it's kept for the prompt.
+   */
+  location: string | null;
+}
+
+export interface PIISanitizerOptions {
+  /**
+   * How each type of PII is replaced. By default, with a placeholder such as `[EMAIL]`.
+   */
+  redaction?: RedactionPolicy | undefined;
+}
+
+interface AnalyzeOptions {
+  /**
+   * Replace PII with numbered tokens such as `[NAME_1]`, kept in this vault, rather than with
+   * placeholders such as `[NAME]`.
+   */
+  vault?: PseudonymVault | undefined;
 }
 
 interface AnalysisResult {
   sanitizedText: string;
   detectedPII: DetectedPII;
+  /**
+   * Everything that was removed, in the order it appears in the input.
+   */
+  entities: PIIEntity[];
   extractedContext: ExtractedContext;
 }
 
+const DETECTED_PII_KEYS: Record<PIIEntityType, keyof DetectedPII> = {
+  name: 'names',
+  email: 'emails',
+  phone: 'phones',
+  credit_card: 'creditCards',
+  ssn: 'ssns',
+  iban: 'ibans',
+  ip_address: 'ipAddresses',
+  passport: 'passports',
+  api_key: 'apiKeys',
+  address: 'addresses',
+};
+
+// Which entity wins where detections overlap: the most specific first, and names last, so that
+// a name inside an email address doesn't break the address up
+const ENTITY_PRIORITY: PIIEntityType[] = [
+  'api_key',
+  'credit_card',
+  'iban',
+  'ssn',
+  'ip_address',
+  'passport',
+  'address',
+  'email',
+  'phone',
+  'name',
+];
+
 /**
  * Handles detection and removal of personally identifiable information from user input.
  * 
  * This class provides methods to:
- * - Detect names, emails, and phone numbers
- * - Extract contextual information (age, gender, goals)
+ * - Detect names, emails, phone numbers, payment cards, SSNs, IBANs, IP addresses,
+ *   passport numbers, API keys and postal addresses
+ * - Extract contextual information (age, gender, goals, coarse location)
  * - Remove PII while preserving context
  * - Maintain privacy by processing everything locally
  */
@@ -47,8 +159,15 @@ export class PIISanitizer {
   private genderPatterns: RegExp[];
   private goalPatterns: RegExp[];
   private emailPattern: RegExp;
+  private redactionPolicy: RedactionPolicy;
+
+  constructor(options: PIISanitizerOptions = {}) {
+    this.redactionPolicy = options.redaction ?? {};
+    const { strategies = {}, default: defaultStrategy, hashSalt } = this.redactionPolicy;
+    if ([defaultStrategy, ...Object.values(strategies)].includes('hash') && !hashSalt) {
+      throw new AdmeshError("The 'hash' redaction strategy requires a `hashSalt`");
+    }
 
-  constructor() {
     this.namePatterns = COMPILED_PATTERNS.names;
     this.phonePatterns = COMPILED_PATTERNS.phones;
     this.agePatterns = COMPILED_PATTERNS.ages;
@@ -61,75 +180,320 @@ export class PIISanitizer {
    * Detect names in the input text using multiple patterns.
    */
   detectNames(text: string): string[] {
-    const names: string[] = [];
+    // Remove duplicates while preserving order
+    const seen = new Set<string>();
+    const uniqueNames: string[] = [];
+    for (const { value } of this.resolveOverlaps(this.findNames(text))) {
+      if (!seen.has(value.toLowerCase())) {
+        seen.add(value.toLowerCase());
+        uniqueNames.push(value);
+      }
+    }
+
+    return uniqueNames;
+  }
+
+  /**
+   * Detect email addresses in the input text.
+   */
+  detectEmails(text: string): string[] {
+    return this.detectValues(this.findEmails(text));
+  }
+
+  /**
+   * Detect phone numbers in the input text using multiple patterns, as they are written.
+   */
+  detectPhones(text: string): string[] {
+    return this.detectValues(this.findPhones(text));
+  }
+
+  /**
+   * Detect payment card numbers in the input text, keeping those that pass the Luhn check.
+   */
+  detectCreditCards(text: string): string[] {
+    return this.detectValues(this.findCreditCards(text));
+  }
+
+  /**
+   * Detect US Social Security numbers in the input text.
+   */
+  detectSSNs(text: string): string[] {
+    return this.detectValues(this.findSSNs(text));
+  }
+
+  /**
+   * Detect IBANs in the input text, keeping those with a valid checksum.
+   */
+  detectIBANs(text: string): string[] {
+    return this.detectValues(this.findIBANs(text));
+  }
+
+  /**
+   * Detect IPv4 and IPv6 addresses in the input text.
+   */
+  detectIPAddresses(text: string): string[] {
+    return this.detectValues(this.findIPAddresses(text));
+  }
+
+  /**
+   * Detect passport numbers in the input text. Only IDs introduced as a passport number
+   * are detected, e.g. "passport no. X1234567".
+   */
+  detectPassports(text: string): string[] {
+    return this.detectValues(this.findPassports(text));
+  }
+
+  /**
+   * Detect API keys and other secrets in the input text, by their provider's prefix or
+   * by looking random.
+   */
+  detectAPIKeys(text: string): string[] {
+    return this.detectValues(this.findAPIKeys(text));
+  }
+
+  /**
+   * Detect street addresses, PO boxes, ZIP codes and postcodes, and geographic coordinates
+   * in the input text.
+   */
+  detectAddresses(text: string): string[] {
+    return this.detectValues(this.findAddresses(text));
+  }
+
+  /**
+   * Detect all PII in the input text, as entities with their position in the text.
+   * Where detections overlap, only the most specific is kept, e.g. a card number rather
+   * than the phone number that its digits also look like.
+   */
+  detectEntities(text: string): PIIEntity[] {
+    return this.resolveOverlaps([
+      ...this.findNames(text),
+      ...this.findEmails(text),
+      ...this.findPhones(text),
+      ...this.findCreditCards(text),
+      ...this.findSSNs(text),
+      ...this.findIBANs(text),
+      ...this.findIPAddresses(text),
+      ...this.findPassports(text),
+      ...this.findAPIKeys(text),
+      ...this.findAddresses(text),
+    ]);
+  }
+
+  private findNames(text: string): PIIEntity[] {
+    const entities: PIIEntity[] = [];
 
     for (const pattern of this.namePatterns) {
       // Reset regex lastIndex to ensure proper matching
       pattern.lastIndex = 0;
       let match;
       while ((match = pattern.exec(text)) !== null) {
-        const name = match[1];
+        const name = match[1]?.trim();
         if (name && isValidName(name)) {
           // Additional check to avoid common phrases
           if (!['the ', 'a ', 'an '].some(phrase => name.toLowerCase().includes(phrase))) {
-            names.push(name.trim());
+            const start = match.index + match[0].indexOf(name);
+            entities.push({
+              type: 'name',
+              value: name,
+              start,
+              end: start + name.length,
+              confidence: 0.7,
+              detector: 'name_pattern',
+            });
           }
         }
       }
     }
 
-    // Remove duplicates while preserving order
-    const seen = new Set<string>();
-    const uniqueNames: string[] = [];
+    // Other mentions of the same names, e.g. "I'm Priya and this is Priya's app"
+    const names = new Set(entities.map((entity) => entity.value.toLowerCase()));
     for (const name of names) {
-      if (!seen.has(name.toLowerCase())) {
-        seen.add(name.toLowerCase());
-        uniqueNames.push(name);
+      const pattern = new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
+      const mentions = this.findMatches(pattern, text, {
+        type: 'name',
+        confidence: 0.6,
+        detector: 'name_repeat',
+      });
+      entities.push(
+        ...mentions.filter((mention) => !entities.some((entity) => entity.start === mention.start)),
+      );
+    }
+
+    return entities;
+  }
+
+  private findEmails(text: string): PIIEntity[] {
+    return this.findMatches(this.emailPattern, text, {
+      type: 'email',
+      confidence: 0.95,
+      detector: 'email_pattern',
+    });
+  }
+
+  private findPhones(text: string): PIIEntity[] {
+    // The last pattern matches any international-looking number, so is less certain
+    return this.phonePatterns.flatMap((pattern, index) =>
+      this.findMatches(pattern, text, {
+        type: 'phone',
+        confidence: index < this.phonePatterns.length - 1 ? 0.8 : 0.6,
+        detector: 'phone_pattern',
+      }),
+    );
+  }
+
+  private findCreditCards(text: string): PIIEntity[] {
+    return this.findMatches(
+      SINGLE_PATTERNS.creditCard,
+      text,
+      { type: 'credit_card', confidence: 0.95, detector: 'luhn' },
+      (match) => isValidLuhn(match),
+    );
+  }
+
+  private findSSNs(text: string): PIIEntity[] {
+    return this.findMatches(SINGLE_PATTERNS.ssn, text, {
+      type: 'ssn',
+      confidence: 0.9,
+      detector: 'ssn_pattern',
+    });
+  }
+
+  private findIBANs(text: string): PIIEntity[] {
+    const ibans: PIIEntity[] = [];
+    const candidates = this.findMatches(SINGLE_PATTERNS.iban, text, {
+      type: 'iban',
+      confidence: 0.95,
+      detector: 'iban_checksum',
+    });
+    for (const candidate of candidates) {
+      // The pattern may run on into a following group of capitals or digits, so drop
+      // trailing groups until the checksum matches.
+      const groups = candidate.value.split(' ');
+      while (groups.length > 0 && !isValidIBAN(groups.join(' '))) {
+        groups.pop();
+      }
+      if (groups.length > 0) {
+        const value = groups.join(' ');
+        ibans.push({ ...candidate, value, end: candidate.start + value.length });
       }
     }
+    return ibans;
+  }
 
-    return uniqueNames;
+  private findIPAddresses(text: string): PIIEntity[] {
+    return [
+      ...this.findMatches(SINGLE_PATTERNS.ipv4, text, {
+        type: 'ip_address',
+        confidence: 0.9,
+        detector: 'ipv4_pattern',
+      }),
+      ...this.findMatches(
+        SINGLE_PATTERNS.ipv6,
+        text,
+        { type: 'ip_address', confidence: 0.9, detector: 'ipv6_pattern' },
+        (match) => isValidIPv6(match),
+      ),
+    ];
+  }
+
+  private findPassports(text: string): PIIEntity[] {
+    return this.findMatches(
+      SINGLE_PATTERNS.passport,
+      text,
+      { type: 'passport', confidence: 0.85, detector: 'passport_pattern' },
+      (id) => /\d/.test(id),
+      1,
+    );
+  }
+
+  private findAPIKeys(text: string): PIIEntity[] {
+    return [
+      ...API_KEY_PATTERNS.flatMap((pattern) =>
+        this.findMatches(pattern, text, { type: 'api_key', confidence: 0.95, detector: 'api_key_prefix' }),
+      ),
+      ...this.findMatches(
+        SINGLE_PATTERNS.secretToken,
+        text,
+        { type: 'api_key', confidence: 0.7, detector: 'secret_entropy' },
+        looksLikeSecret,
+      ),
+    ];
+  }
+
+  private findAddresses(text: string): PIIEntity[] {
+    return [
+      ...COMPILED_PATTERNS.addresses.flatMap((pattern) =>
+        this.findMatches(pattern, text, { type: 'address', confidence: 0.85, detector: 'address_pattern' }),
+      ),
+      ...COMPILED_PATTERNS.postalCodes.flatMap((pattern) =>
+        this.findMatches(
+          pattern,
+          text,
+          { type: 'address', confidence: 0.8, detector: 'postal_code_pattern' },
+          undefined,
+          1,
+        ),
+      ),
+      ...this.findMatches(
+        SINGLE_PATTERNS.decimalCoordinates,
+        text,
+        { type: 'address', confidence: 0.9, detector: 'coordinates_pattern' },
+        isValidCoordinates,
+      ),
+      ...this.findMatches(SINGLE_PATTERNS.dmsCoordinates, text, {
+        type: 'address',
+        confidence: 0.9,
+        detector: 'coordinates_pattern',
+      }),
+    ];
   }
 
   /**
-   * Detect email addresses in the input text.
+   * Find the matches of a pattern, or of one of its groups, that pass a check.
    */
-  detectEmails(text: string): string[] {
-    this.emailPattern.lastIndex = 0;
-    const matches: string[] = [];
+  private findMatches(
+    pattern: RegExp,
+    text: string,
+    entity: Pick<PIIEntity, 'type' | 'confidence' | 'detector'>,
+    isValid: (match: string) => boolean = () => true,
+    group = 0,
+  ): PIIEntity[] {
+    pattern.lastIndex = 0;
+    const entities: PIIEntity[] = [];
     let match;
-    while ((match = this.emailPattern.exec(text)) !== null) {
-      matches.push(match[0]);
+    while ((match = pattern.exec(text)) !== null) {
+      const value = match[group];
+      if (value && isValid(value)) {
+        const start = match.index + match[0].indexOf(value);
+        const { type, confidence, detector } = entity;
+        entities.push({ type, value, start, end: start + value.length, confidence, detector });
+      }
     }
-    return [...new Set(matches)]; // Remove duplicates
+    return entities;
   }
 
   /**
-   * Detect phone numbers in the input text using multiple patterns.
+   * Keep the entities that don't overlap a more specific or more certain one, in the order
+   * they appear in the text.
    */
-  detectPhones(text: string): string[] {
-    const phones: string[] = [];
-    
-    for (const pattern of this.phonePatterns) {
-      pattern.lastIndex = 0;
-      let match;
-      while ((match = pattern.exec(text)) !== null) {
-        if (match.length > 1) {
-          // Reconstruct phone number from groups
-          if (match.length === 4) {
-            const phone = `(${match[1]}) ${match[2]}-${match[3]}`;
-            phones.push(phone);
-          } else {
-            const phone = match.slice(1).join('-');
-            phones.push(phone);
-          }
-        } else {
-          phones.push(match[0]);
-        }
+  private resolveOverlaps(entities: ReadonlyArray<PIIEntity>): PIIEntity[] {
+    const ranked = [...entities].sort(
+      (a, b) =>
+        ENTITY_PRIORITY.indexOf(a.type) - ENTITY_PRIORITY.indexOf(b.type) ||
+        b.confidence - a.confidence ||
+        b.end - b.start - (a.end - a.start),
+    );
+    const kept: PIIEntity[] = [];
+    for (const entity of ranked) {
+      if (!kept.some((other) => entity.start < other.end && other.start < entity.end)) {
+        kept.push(entity);
       }
     }
-    
-    return [...new Set(phones)]; // Remove duplicates
+    return kept.sort((a, b) => a.start - b.start);
+  }
+
+  private detectValues(entities: ReadonlyArray<PIIEntity>): string[] {
+    return [...new Set(this.resolveOverlaps(entities).map((entity) => entity.value))];
   }
 
   /**
@@ -191,74 +555,135 @@ export class PIISanitizer {
   }
 
   /**
-   * Remove detected PII from the input text.
+   * Extract the city, region or country the user mentions, e.g. "I live in Berlin".
    */
-  removePII(text: string, detectedPII: DetectedPII): string {
-    let sanitizedText = text;
-    
-    // Remove names
-    if (detectedPII.names.length > 0) {
-      for (const name of detectedPII.names) {
-        // Use word boundaries to avoid partial matches
-        const pattern = new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
-        sanitizedText = sanitizedText.replace(pattern, '[NAME]');
+  extractLocation(text: string): string | null {
+    for (const pattern of COMPILED_PATTERNS.locations) {
+      pattern.lastIndex = 0;
+      const match = pattern.exec(text);
+      const location = match?.[match.length - 1];
+      if (location) {
+        return location.trim();
       }
     }
-    
-    // Remove emails
-    if (detectedPII.emails.length > 0) {
-      for (const email of detectedPII.emails) {
-        sanitizedText = sanitizedText.replace(email, '[EMAIL]');
+
+    return null;
+  }
+
+  /**
+   * Remove detected PII from the input text. Every mention of each value is removed;
+   * names regardless of case.
+   *
+   * Prefer `redact` with the entities from `detectEntities`, which removes exactly what
+   * was detected where it was detected.
+   */
+  removePII(text: string, detectedPII: DetectedPII): string {
+    const entities: PIIEntity[] = [];
+    for (const type of ENTITY_PRIORITY) {
+      for (const value of detectedPII[DETECTED_PII_KEYS[type]]) {
+        const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        // Use word boundaries for names to avoid partial matches
+        const pattern = type === 'name' ? new RegExp(`\\b${escaped}\\b`, 'gi') : new RegExp(escaped, 'g');
+        entities.push(...this.findMatches(pattern, text, { type, confidence: 1, detector: 'value' }));
       }
     }
-    
-    // Remove phones
-    if (detectedPII.phones.length > 0) {
-      for (const phone of detectedPII.phones) {
-        sanitizedText = sanitizedText.replace(phone, '[PHONE]');
-      }
+    return this.redact(text, entities);
+  }
+
+  /**
+   * Replace entities in the input text as the redaction policy says: by default with their
+   * placeholders, such as `[EMAIL]`, or with their tokens in a vault, such as `[EMAIL_1]`.
+   * Where entities overlap, only the most specific is replaced.
+   */
+  redact(text: string, entities: ReadonlyArray<PIIEntity>, vault?: PseudonymVault): string {
+    let sanitizedText = '';
+    let offset = 0;
+    for (const entity of this.resolveOverlaps(entities)) {
+      sanitizedText += text.slice(offset, entity.start) + this.replacementFor(entity, vault);
+      offset = entity.end;
+    }
+    sanitizedText += text.slice(offset);
+
+    // Clean up after removed values and multiple spaces, and normalize
+    return tidyRemovals(sanitizedText).replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * The strategy the redaction policy sets for a type of PII.
+   */
+  redactionStrategy(type: PIIEntityType): RedactionStrategy {
+    return this.redactionPolicy.strategies?.[type] ?? this.redactionPolicy.default ?? 'placeholder';
+  }
+
+  private replacementFor(entity: PIIEntity, vault: PseudonymVault | undefined): string {
+    switch (this.redactionStrategy(entity.type)) {
+      case 'placeholder':
+        return vault ?
+            vault.tokenize(entity.type, entity.value)
+          : PII_PLACEHOLDERS[DETECTED_PII_KEYS[entity.type]];
+      case 'mask':
+        return maskValue(entity);
+      case 'hash':
+        return hashValue(entity, this.redactionPolicy.hashSalt!);
+      case 'remove':
+        return REMOVED_MARKER;
+      case 'synthesize':
+        return synthesizeValue(entity);
     }
-    
-    // Clean up multiple spaces and normalize
-    sanitizedText = sanitizedText.replace(/\s+/g, ' ').trim();
-    
-    return sanitizedText;
   }
 
   /**
    * Perform complete PII analysis on the input text.
    */
-  analyzeText(text: string): AnalysisResult {
+  analyzeText(text: string, options: AnalyzeOptions = {}): AnalysisResult {
+    const { vault } = options;
+
     // Detect all PII
-    const names = this.detectNames(text);
-    const emails = this.detectEmails(text);
-    const phones = this.detectPhones(text);
-    
-    // Extract context
-    const age = this.extractAge(text);
-    const gender = this.extractGender(text);
-    const goal = this.extractGoal(text);
-    
+    const entities = this.detectEntities(text);
+
     // Prepare detected PII object
     const detectedPII: DetectedPII = {
-      names,
-      emails,
-      phones,
+      names: [],
+      emails: [],
+      phones: [],
+      creditCards: [],
+      ssns: [],
+      ibans: [],
+      ipAddresses: [],
+      passports: [],
+      apiKeys: [],
+      addresses: [],
     };
+    for (const { type, value } of entities) {
+      const values = detectedPII[DETECTED_PII_KEYS[type]];
+      // Names are compared regardless of case, as with detectNames
+      const key = (other: string) => (type === 'name' ? other.toLowerCase() : other);
+      if (!values.some((other) => key(other) === key(value))) {
+        values.push(value);
+      }
+    }
     
     // Remove PII from text
-    const sanitizedText = this.removePII(text, detectedPII);
+    const sanitizedText = this.redact(text, entities, vault);
+
+    // Extract context, taking the goal from the redacted text so no PII reaches the prompt
+    const age = this.extractAge(text);
+    const gender = this.extractGender(text);
+    const goal = this.extractGoal(sanitizedText);
+    const location = this.extractLocation(text);
     
     // Prepare extracted context
     const extractedContext: ExtractedContext = {
       age,
       gender,
       goal,
+      location,
     };
     
     return {
       sanitizedText,
       detectedPII,
+      entities,
       extractedContext,
     };
   }
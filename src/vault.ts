@@ -0,0 +1,221 @@
+// File generated for AdMesh PII sanitization functionality
+
+/**
+ * Reversible pseudonymization: PII is replaced with numbered tokens such as `[NAME_1]`, and the
+ * vault maps them back, e.g. to greet the user by name in an answer built from a sanitized prompt.
+ * The original values only leave the vault encrypted, unless exported with `exportUnencrypted`.
+ */
+
+import { AdmeshError } from './core/error';
+import { fromBase64, toBase64 } from './internal/utils/base64';
+import { decodeUTF8, encodeUTF8 } from './internal/utils/bytes';
+import { normalizePIIValue } from './redaction';
+import type { PIIEntityType } from './sanitizer';
+
+export interface PseudonymVaultOptions {
+  /**
+   * A passphrase to encrypt the vault with when it's exported, so that it can be stored, e.g. with
+   * the conversation session. The key is derived with PBKDF2 and the vault encrypted with AES-GCM.
+   */
+  encryptionKey?: string | undefined;
+}
+
+interface VaultEntry {
+  type: PIIEntityType;
+  value: string;
+  token: string;
+}
+
+// A token as it may come back from a model or from the prompt builder, which lower-cases goals
+const TOKEN_PATTERN = /\[([A-Za-z_]+)_(\d+)\]/g;
+
+const KEY_ITERATIONS = 100_000;
+
+const VERSION = 1;
+
+/**
+ * Holds the values behind pseudonymization tokens. Use one vault per conversation session: the same
+ * value always gets the same token, e.g. an email mentioned in two messages is `[EMAIL_1]` in both.
+ */
+export class PseudonymVault {
+  // Token by type and normalized value, and entry by token
+  #tokens = new Map<string, string>();
+  #entries = new Map<string, VaultEntry>();
+  #counts = new Map<PIIEntityType, number>();
+  readonly #encryptionKey: string | undefined;
+
+  constructor(options: PseudonymVaultOptions = {}) {
+    this.#encryptionKey = options.encryptionKey;
+  }
+
+  /**
+   * The number of values in the vault.
+   */
+  get size(): number {
+    return this.#entries.size;
+  }
+
+  /**
+   * Returns the token for a value, adding it to the vault the first time it's seen.
+   */
+  tokenize(type: PIIEntityType, value: string): string {
+    const key = `${type}:${normalizePIIValue(type, value)}`;
+    const existing = this.#tokens.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const count = (this.#counts.get(type) ?? 0) + 1;
+    const token = `[${type.toUpperCase()}_${count}]`;
+    this.#counts.set(type, count);
+    this.#tokens.set(key, token);
+    this.#entries.set(token, { type, value, token });
+    return token;
+  }
+
+  /**
+   * Returns the value behind a token, if it's in the vault.
+   */
+  lookup(token: string): string | undefined {
+    return this.#entries.get(token.toUpperCase())?.value;
+  }
+
+  /**
+   * Replaces the tokens in a text with the values they stand for, regardless of case.
+   * Tokens that aren't in the vault are left as they are.
+   */
+  restore(text: string): string {
+    return text.replace(TOKEN_PATTERN, (token) => this.lookup(token) ?? token);
+  }
+
+  /**
+   * Serializes the vault, encrypted with its `encryptionKey`, e.g. to store it with the session
+   * between requests. Restore it with `PseudonymVault.import`.
+   */
+  async export(): Promise<string> {
+    if (this.#encryptionKey === undefined) {
+      throw new AdmeshError(
+        'Exporting the vault requires an `encryptionKey`; use `exportUnencrypted` to export the PII in plain text',
+      );
+    }
+
+    const entries = [...this.#entries.values()];
+    const subtle = getSubtleCrypto();
+    const salt = getRandomBytes(16);
+    const iv = getRandomBytes(12);
+    const key = await deriveKey(subtle, this.#encryptionKey, salt);
+    const data = await subtle.encrypt({ name: 'AES-GCM', iv }, key, encodeUTF8(JSON.stringify(entries)));
+    return JSON.stringify({
+      version: VERSION,
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(data)),
+    });
+  }
+
+  /**
+   * Serializes the vault without encrypting it: the result holds the original PII in plain text,
+   * so only keep it where the PII itself may be kept. Restore it with `PseudonymVault.import`.
+   */
+  exportUnencrypted(): string {
+    return JSON.stringify({ version: VERSION, entries: [...this.#entries.values()] });
+  }
+
+  /**
+   * Restores a vault serialized with `export`. Pass the same `encryptionKey` it was exported with.
+   */
+  static async import(serialized: string, options: PseudonymVaultOptions = {}): Promise<PseudonymVault> {
+    const vault = new PseudonymVault(options);
+    let parsed: any;
+    try {
+      parsed = JSON.parse(serialized);
+    } catch {
+      throw new AdmeshError('Could not read the vault; it is not an exported vault');
+    }
+    if (parsed?.version !== VERSION) {
+      throw new AdmeshError(`Unsupported vault version: ${parsed?.version}`);
+    }
+    const { entries, salt, iv, data } = parsed;
+
+    let decrypted: VaultEntry[] = entries;
+    if (data !== undefined) {
+      if (options.encryptionKey === undefined) {
+        throw new AdmeshError('The vault is encrypted; pass the `encryptionKey` it was exported with');
+      }
+      const subtle = getSubtleCrypto();
+      try {
+        const key = await deriveKey(subtle, options.encryptionKey, fromBase64(salt));
+        const plaintext = await subtle.decrypt(
+          { name: 'AES-GCM', iv: fromBase64(iv) },
+          key,
+          fromBase64(data),
+        );
+        decrypted = JSON.parse(decodeUTF8(new Uint8Array(plaintext)));
+      } catch {
+        throw new AdmeshError('Could not decrypt the vault; check the `encryptionKey`');
+      }
+    }
+    if (!Array.isArray(decrypted)) {
+      throw new AdmeshError('Could not read the vault; it is not an exported vault');
+    }
+
+    for (const { type, value, token } of decrypted) {
+      vault.#tokens.set(`${type}:${normalizePIIValue(type, value)}`, token);
+      vault.#entries.set(token, { type, value, token });
+      const count = Number(/_(\d+)\]$/.exec(token)?.[1] ?? 0);
+      vault.#counts.set(type, Math.max(vault.#counts.get(type) ?? 0, count));
+    }
+    return vault;
+  }
+}
+
+// The parts of the Web Crypto API used here
+interface SubtleCrypto {
+  importKey(
+    format: 'raw',
+    keyData: Uint8Array,
+    algorithm: 'PBKDF2',
+    extractable: false,
+    keyUsages: ['deriveKey'],
+  ): Promise<unknown>;
+  deriveKey(
+    algorithm: { name: 'PBKDF2'; salt: Uint8Array; iterations: number; hash: 'SHA-256' },
+    baseKey: unknown,
+    derivedKeyType: { name: 'AES-GCM'; length: 256 },
+    extractable: false,
+    keyUsages: Array<'encrypt' | 'decrypt'>,
+  ): Promise<unknown>;
+  encrypt(
+    algorithm: { name: 'AES-GCM'; iv: Uint8Array },
+    key: unknown,
+    data: Uint8Array,
+  ): Promise<ArrayBuffer>;
+  decrypt(
+    algorithm: { name: 'AES-GCM'; iv: Uint8Array },
+    key: unknown,
+    data: Uint8Array,
+  ): Promise<ArrayBuffer>;
+}
+
+function getSubtleCrypto(): SubtleCrypto {
+  const subtle = (globalThis as any).crypto?.subtle;
+  if (!subtle) {
+    throw new AdmeshError('Encrypting the vault requires the Web Crypto API (`crypto.subtle`)');
+  }
+  return subtle;
+}
+
+function getRandomBytes(length: number): Uint8Array {
+  return (globalThis as any).crypto.getRandomValues(new Uint8Array(length));
+}
+
+async function deriveKey(subtle: SubtleCrypto, passphrase: string, salt: Uint8Array): Promise<unknown> {
+  const baseKey = await subtle.importKey('raw', encodeUTF8(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: KEY_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
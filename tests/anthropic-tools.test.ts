@@ -0,0 +1,93 @@
+import Admesh, { anthropicTools, formatToolResult, handleAnthropicToolUse, sanitizeAndBuild } from 'admesh';
+
+const response = {
+  response: {
+    recommendations: [
+      {
+        ad_id: 'ad_1',
+        admesh_link: 'https://useadmesh.com/r/1',
+        product_id: 'prod_1',
+        reason: 'Great for remote teams',
+        title: 'HubSpot',
+      },
+    ],
+  },
+};
+
+function makeClient(bodies: any[]) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    fetch: async (_url, init) => {
+      bodies.push(JSON.parse(init?.body as string));
+      return new Response(JSON.stringify(response), { headers: { 'content-type': 'application/json' } });
+    },
+  });
+}
+
+describe('anthropicTools', () => {
+  test('emits a tool with an input schema', () => {
+    expect(anthropicTools()).toEqual([
+      {
+        name: 'get_recommendations',
+        description: expect.any(String),
+        input_schema: expect.objectContaining({ type: 'object', required: ['query'] }),
+      },
+    ]);
+  });
+});
+
+describe('handleAnthropicToolUse', () => {
+  test('returns tool_result blocks for tool_use blocks', async () => {
+    const bodies: any[] = [];
+    const results = await handleAnthropicToolUse(makeClient(bodies), [
+      { type: 'text', text: 'Let me look that up.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'get_recommendations', input: { query: 'Best CRM' } },
+      { type: 'tool_use', id: 'toolu_2', name: 'other_tool', input: {} },
+    ] as any);
+
+    expect(bodies).toEqual([{ query: 'Best CRM' }]);
+    expect(results).toEqual([
+      { type: 'tool_result', tool_use_id: 'toolu_1', content: formatToolResult(response) },
+    ]);
+  });
+
+  test('removes PII from the input', async () => {
+    const bodies: any[] = [];
+    const query = "I'm Priya (priya@gmail.com), which CRM should my startup use?";
+    await handleAnthropicToolUse(makeClient(bodies), [
+      { type: 'tool_use', id: 'toolu_1', name: 'get_recommendations', input: { query } },
+    ] as any);
+
+    expect(bodies[0].query).toEqual(sanitizeAndBuild(query).sanitized_text);
+    expect(bodies[0].query).not.toContain('priya@gmail.com');
+    expect(bodies[0].query).toContain('[EMAIL]');
+  });
+
+  test('sanitization can be turned off', async () => {
+    const bodies: any[] = [];
+    const query = 'Email priya@gmail.com a CRM shortlist';
+    await handleAnthropicToolUse(
+      makeClient(bodies),
+      [{ type: 'tool_use', id: 'toolu_1', name: 'get_recommendations', input: { query } }] as any,
+      { sanitize: false },
+    );
+    expect(bodies[0].query).toEqual(query);
+  });
+
+  test('reports invalid input as an error result', async () => {
+    const bodies: any[] = [];
+    const results = await handleAnthropicToolUse(makeClient(bodies), [
+      { type: 'tool_use', id: 'toolu_1', name: 'get_recommendations', input: { query: 1 } },
+    ] as any);
+    expect(bodies).toHaveLength(0);
+    expect(results).toEqual([
+      {
+        type: 'tool_result',
+        tool_use_id: 'toolu_1',
+        content: 'Invalid get_recommendations arguments: `query` must be a non-empty string',
+        is_error: true,
+      },
+    ]);
+  });
+});
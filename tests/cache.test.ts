@@ -0,0 +1,303 @@
+import Admesh, { LRUCacheStore, type CacheOptions, type CachedResponse, type CacheStore } from 'admesh';
+
+function recommendation(title: string) {
+  return {
+    ad_id: 'ad',
+    admesh_link: 'https://admesh.link/x',
+    product_id: 'prod',
+    reason: '',
+    title,
+    url: '',
+  };
+}
+
+function makeClient(cache: CacheOptions, calls: any[] = []) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    logLevel: 'off',
+    baseURL: 'http://localhost:5000/',
+    cache,
+    fetch: async (url, init) => {
+      calls.push(JSON.parse(init?.body as string));
+      return new Response(
+        JSON.stringify({ response: { recommendations: [recommendation(`call ${calls.length}`)] } }),
+        { headers: { 'content-type': 'application/json' } },
+      );
+    },
+  });
+}
+
+const title = (response: Admesh.RecommendGetRecommendationsResponse) =>
+  response.response?.recommendations?.[0]?.title;
+
+describe('response cache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('serves identical queries from the cache', async () => {
+    const calls: any[] = [];
+    const client = makeClient({}, calls);
+
+    const first = await client.recommend.getRecommendations({ query: 'Best CRM' });
+    const second = await client.recommend.getRecommendations({ query: '  best   crm ' });
+    expect(title(first)).toBe('call 1');
+    expect(title(second)).toBe('call 1');
+    expect(calls).toHaveLength(1);
+
+    await client.recommend.getRecommendations({ query: 'best crm', format: 'auto' });
+    expect(calls).toHaveLength(2);
+  });
+
+  test('ignores raiseOnEmptyRecommendations in the key', async () => {
+    const calls: any[] = [];
+    const client = makeClient({}, calls);
+
+    await client.recommend.getRecommendations({ query: 'crm' });
+    await client.recommend.getRecommendations({ query: 'crm', raiseOnEmptyRecommendations: false });
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toEqual({ query: 'crm' });
+  });
+
+  test('skips the cache with no-store', async () => {
+    const calls: any[] = [];
+    const client = makeClient({}, calls);
+
+    await client.recommend.getRecommendations({ query: 'crm' });
+    const response = await client.recommend.getRecommendations({ query: 'crm' }, { cache: 'no-store' });
+    expect(title(response)).toBe('call 2');
+  });
+
+  test('expires entries after the ttl', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const calls: any[] = [];
+    const client = makeClient({ ttl: 1000 }, calls);
+
+    await client.recommend.getRecommendations({ query: 'crm' });
+    jest.setSystemTime(999);
+    await client.recommend.getRecommendations({ query: 'crm' });
+    expect(calls).toHaveLength(1);
+
+    jest.setSystemTime(1000);
+    const response = await client.recommend.getRecommendations({ query: 'crm' });
+    expect(title(response)).toBe('call 2');
+  });
+
+  test('returns stale responses while revalidating', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const calls: any[] = [];
+    const store = new LRUCacheStore();
+    const client = makeClient({ ttl: 1000, staleWhileRevalidate: 1000, store }, calls);
+
+    await client.recommend.getRecommendations({ query: 'crm' });
+    jest.setSystemTime(1500);
+    const stale = await client.recommend.getRecommendations({ query: 'crm' });
+    expect(title(stale)).toBe('call 1');
+    expect(calls).toHaveLength(2);
+
+    // Let the background refresh store its response.
+    await jest.runAllTimersAsync();
+    const fresh = await client.recommend.getRecommendations({ query: 'crm' });
+    expect(title(fresh)).toBe('call 2');
+    expect(calls).toHaveLength(2);
+
+    jest.setSystemTime(5000);
+    expect(title(await client.recommend.getRecommendations({ query: 'crm' }))).toBe('call 3');
+  });
+
+  test('shares one request between concurrent misses', async () => {
+    const calls: any[] = [];
+    const client = makeClient({}, calls);
+
+    const responses = await Promise.all([
+      client.recommend.getRecommendations({ query: 'crm' }),
+      client.recommend.getRecommendations({ query: 'crm' }),
+      client.recommend.getRecommendations({ query: 'CRM' }),
+    ]);
+    expect(responses.map(title)).toEqual(['call 1', 'call 1', 'call 1']);
+    expect(calls).toHaveLength(1);
+  });
+
+  test('callers sharing a request abort on their own', async () => {
+    const signals: AbortSignal[] = [];
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      cache: {},
+      fetch: async (url, init) => {
+        signals.push(init!.signal as AbortSignal);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return new Response(JSON.stringify({ response: { recommendations: [recommendation('shared')] } }), {
+          headers: { 'content-type': 'application/json' },
+        });
+      },
+    });
+
+    const first = new AbortController();
+    const firstRequest = client.recommend.getRecommendations({ query: 'crm' }, { signal: first.signal });
+    const secondRequest = client.recommend.getRecommendations({ query: 'crm' });
+    first.abort();
+
+    await expect(firstRequest).rejects.toThrow(Admesh.APIUserAbortError);
+    expect(title(await secondRequest)).toBe('shared');
+    expect(signals).toHaveLength(1);
+    expect(signals[0]!.aborted).toBe(false);
+  });
+
+  test('aborts a shared request once every caller has aborted', async () => {
+    const signals: AbortSignal[] = [];
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      maxRetries: 0,
+      cache: {},
+      fetch: (url, init) => {
+        signals.push(init!.signal as AbortSignal);
+        return new Promise((resolve, reject) =>
+          init!.signal!.addEventListener('abort', () =>
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' })),
+          ),
+        );
+      },
+    });
+
+    const controllers = [new AbortController(), new AbortController()];
+    const requests = controllers.map((controller) =>
+      client.recommend.getRecommendations({ query: 'crm' }, { signal: controller.signal }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controllers[0]!.abort();
+    expect(signals[0]!.aborted).toBe(false);
+    controllers[1]!.abort();
+
+    for (const request of requests) await expect(request).rejects.toThrow(Admesh.APIUserAbortError);
+    expect(signals).toHaveLength(1);
+    expect(signals[0]!.aborted).toBe(true);
+  });
+
+  test('evicts the least recently used entries', async () => {
+    const calls: any[] = [];
+    const client = makeClient({ maxEntries: 2 }, calls);
+
+    await client.recommend.getRecommendations({ query: 'a' });
+    await client.recommend.getRecommendations({ query: 'b' });
+    await client.recommend.getRecommendations({ query: 'a' });
+    await client.recommend.getRecommendations({ query: 'c' });
+    expect(calls).toHaveLength(3);
+
+    await client.recommend.getRecommendations({ query: 'a' });
+    expect(calls).toHaveLength(3);
+    await client.recommend.getRecommendations({ query: 'b' });
+    expect(calls).toHaveLength(4);
+  });
+
+  test('uses a custom async store', async () => {
+    const entries = new Map<string, CachedResponse>();
+    const store: CacheStore = {
+      get: async (key) => entries.get(key),
+      set: async (key, value) => {
+        entries.set(key, value);
+      },
+      delete: async (key) => {
+        entries.delete(key);
+      },
+    };
+    const calls: any[] = [];
+    const client = makeClient({ store }, calls);
+
+    await client.recommend.getRecommendations({ query: 'crm' });
+    expect(entries.size).toBe(1);
+    expect(JSON.parse([...entries.values()][0]!.body)).toMatchObject({
+      response: { recommendations: [{ title: 'call 1' }] },
+    });
+
+    const response = await client.recommend.getRecommendations({ query: 'crm' });
+    expect(title(response)).toBe('call 1');
+    expect(calls).toHaveLength(1);
+  });
+
+  test('keeps responses apart for each API key and base URL', async () => {
+    const store = new LRUCacheStore();
+    const calls: any[] = [];
+    const client = makeClient({ store }, calls);
+
+    await client.recommend.getRecommendations({ query: 'crm' });
+    await client.withOptions({ apiKey: 'Other API Key' }).recommend.getRecommendations({ query: 'crm' });
+    await client
+      .withOptions({ baseURL: 'http://localhost:5001/' })
+      .recommend.getRecommendations({ query: 'crm' });
+    expect(calls).toHaveLength(3);
+    expect(store.size).toBe(3);
+
+    await client.withOptions({ apiKey: 'Other API Key' }).recommend.getRecommendations({ query: 'crm' });
+    expect(calls).toHaveLength(3);
+  });
+
+  test('serves cached responses without a body', async () => {
+    let status = 204;
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      cache: {},
+      fetch: async () => new Response(null, { status }),
+    });
+
+    await client.recommend.getRecommendations({ query: 'crm', raiseOnEmptyRecommendations: false });
+    status = 500;
+    const response = await client.recommend
+      .getRecommendations({ query: 'crm', raiseOnEmptyRecommendations: false })
+      .asResponse();
+    expect(response.status).toBe(204);
+  });
+
+  test('falls back to the network when the store fails', async () => {
+    const calls: any[] = [];
+    const client = makeClient(
+      {
+        store: {
+          get: () => Promise.reject(new Error('down')),
+          set: () => Promise.reject(new Error('down')),
+          delete: () => {},
+        },
+      },
+      calls,
+    );
+
+    await client.recommend.getRecommendations({ query: 'crm' });
+    const response = await client.recommend.getRecommendations({ query: 'crm' });
+    expect(title(response)).toBe('call 2');
+  });
+
+  test('does not cache errors', async () => {
+    let status = 500;
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      maxRetries: 0,
+      cache: {},
+      fetch: async () =>
+        new Response(JSON.stringify({ response: { recommendations: [recommendation('ok')] } }), {
+          status,
+          headers: { 'content-type': 'application/json' },
+        }),
+    });
+
+    await expect(client.recommend.getRecommendations({ query: 'crm' })).rejects.toThrow();
+    status = 200;
+    expect(title(await client.recommend.getRecommendations({ query: 'crm' }))).toBe('ok');
+  });
+});
+
+describe('LRUCacheStore', () => {
+  test('get refreshes recency', () => {
+    const store = new LRUCacheStore(2);
+    const value = { status: 200, headers: {}, body: '', storedAt: 0 };
+    store.set('a', value, 1000);
+    store.set('b', value, 1000);
+    store.get('a');
+    store.set('c', value, 1000);
+    expect(store.size).toBe(2);
+    expect(store.get('a')).toBe(value);
+    expect(store.get('b')).toBeUndefined();
+  });
+});
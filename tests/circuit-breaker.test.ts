@@ -0,0 +1,200 @@
+import Admesh, { CircuitBreaker, CircuitOpenError, type CircuitBreakerOptions } from 'admesh';
+
+function makeClient(
+  circuitBreaker: CircuitBreakerOptions | CircuitBreaker,
+  statuses: number[],
+  calls: any[],
+) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    logLevel: 'off',
+    maxRetries: 2,
+    circuitBreaker,
+    fetch: async (url) => {
+      calls.push(url);
+      const status = statuses.shift() ?? 200;
+      if (status === 0) throw new TypeError('fetch failed');
+      return new Response(JSON.stringify({ status }), {
+        status,
+        headers: { 'content-type': 'application/json', 'retry-after-ms': '1' },
+      });
+    },
+  });
+}
+
+describe('circuit breaker', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('opens after consecutive failures and fails fast', async () => {
+    const calls: any[] = [];
+    const changes: string[] = [];
+    const client = makeClient(
+      {
+        failureThresholds: { '5xx': 3 },
+        onStateChange: (state, previous) => changes.push(`${previous}>${state}`),
+      },
+      [500, 502, 503, 500],
+      calls,
+    );
+
+    // The third attempt opens the circuit, so there are no further retries.
+    await expect(client.post('/foo')).rejects.toThrow(Admesh.InternalServerError);
+    expect(calls).toHaveLength(3);
+    expect(changes).toEqual(['closed>open']);
+
+    const err = (await client.post('/foo').catch((err) => err)) as CircuitOpenError;
+    expect(err).toBeInstanceOf(CircuitOpenError);
+    expect(err.retryAfterMs).toBeGreaterThan(0);
+    expect(calls).toHaveLength(3);
+  });
+
+  test('stops retrying once the circuit opens', async () => {
+    const calls: any[] = [];
+    const client = makeClient({ failureThresholds: { '5xx': 2 } }, [500, 500, 500], calls);
+
+    await expect(client.post('/foo')).rejects.toThrow(CircuitOpenError);
+    expect(calls).toHaveLength(2);
+  });
+
+  test('successes reset the failure count', async () => {
+    const calls: any[] = [];
+    const breaker = new CircuitBreaker({ failureThresholds: { '5xx': 2 } });
+    const client = makeClient(breaker, [500, 200, 500, 200], calls);
+
+    await client.post('/foo');
+    await client.post('/foo');
+    expect(breaker.state).toBe('closed');
+  });
+
+  test('counts only the configured classes', async () => {
+    const calls: any[] = [];
+    const breaker = new CircuitBreaker({ failureThresholds: { '429': 2, connection: 1 } });
+    const client = makeClient(breaker, [500, 500, 500, 400, 400], calls);
+
+    await expect(client.post('/foo')).rejects.toThrow(Admesh.InternalServerError);
+    await expect(client.post('/foo')).rejects.toThrow(Admesh.BadRequestError);
+    await expect(client.post('/foo')).rejects.toThrow(Admesh.BadRequestError);
+    expect(breaker.state).toBe('closed');
+
+    breaker.acquire();
+    breaker.record('connection');
+    expect(breaker.state).toBe('open');
+  });
+
+  test('failures that are not counted do not reset the count', () => {
+    const breaker = new CircuitBreaker({ failureThresholds: { '5xx': 3 } });
+
+    for (const status of [500, 400, 502, 404, 429]) {
+      breaker.acquire();
+      breaker.record(status);
+    }
+    expect(breaker.state).toBe('closed');
+    breaker.acquire();
+    breaker.record(503);
+    expect(breaker.state).toBe('open');
+  });
+
+  test('counts connection errors', async () => {
+    const calls: any[] = [];
+    const breaker = new CircuitBreaker({ failureThresholds: { connection: 2 } });
+    const client = makeClient(breaker, [0, 0, 0], calls);
+
+    await expect(client.post('/foo')).rejects.toThrow(CircuitOpenError);
+    expect(calls).toHaveLength(2);
+  });
+
+  test('half-opens after the cooldown', async () => {
+    jest.useFakeTimers({ now: 0, doNotFake: ['setTimeout'] });
+    const calls: any[] = [];
+    const changes: string[] = [];
+    const breaker = new CircuitBreaker({
+      failureThresholds: { '5xx': 1 },
+      cooldown: 1000,
+      onStateChange: (state) => changes.push(state),
+    });
+    const client = makeClient(breaker, [500, 500, 200], calls);
+    const request = () => client.post('/foo', { maxRetries: 0 });
+
+    await expect(request()).rejects.toThrow(Admesh.InternalServerError);
+    jest.setSystemTime(999);
+    await expect(request()).rejects.toThrow(CircuitOpenError);
+
+    // A failed trial opens the circuit for another cooldown.
+    jest.setSystemTime(1000);
+    expect(breaker.state).toBe('half-open');
+    await expect(request()).rejects.toThrow(Admesh.InternalServerError);
+    expect(breaker.state).toBe('open');
+
+    jest.setSystemTime(2000);
+    await request();
+    expect(breaker.state).toBe('closed');
+    expect(changes).toEqual(['open', 'half-open', 'open', 'half-open', 'closed']);
+    expect(calls).toHaveLength(3);
+  });
+
+  test('limits trial requests while half-open', () => {
+    jest.useFakeTimers({ now: 0 });
+    const breaker = new CircuitBreaker({
+      failureThresholds: { '5xx': 1 },
+      cooldown: 1000,
+      halfOpenRequests: 2,
+    });
+    breaker.acquire();
+    breaker.record(503);
+    jest.setSystemTime(1000);
+
+    breaker.acquire();
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    breaker.release();
+    breaker.acquire();
+    breaker.record(200);
+    expect(breaker.state).toBe('half-open');
+    breaker.record(200);
+    expect(breaker.state).toBe('closed');
+  });
+
+  test('does not count aborted requests or middleware errors', async () => {
+    const breaker = new CircuitBreaker({ failureThresholds: { connection: 1 } });
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      circuitBreaker: breaker,
+      middleware: [
+        async () => {
+          throw new Error('middleware failed');
+        },
+      ],
+    });
+
+    await expect(client.post('/foo')).rejects.toThrow('middleware failed');
+    expect(breaker.state).toBe('closed');
+
+    const controller = new AbortController();
+    const aborting = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      circuitBreaker: breaker,
+      fetch: async () => {
+        controller.abort();
+        throw new Error('aborted');
+      },
+    });
+    await expect(aborting.post('/foo', { signal: controller.signal })).rejects.toThrow(
+      Admesh.APIUserAbortError,
+    );
+    expect(breaker.state).toBe('closed');
+  });
+
+  test('can be shared between clients', async () => {
+    const breaker = new CircuitBreaker({ failureThresholds: { '5xx': 1 } });
+    const calls: any[] = [];
+    await expect(makeClient(breaker, [500], calls).post('/foo')).rejects.toThrow(CircuitOpenError);
+    await expect(makeClient(breaker, [], calls).post('/foo')).rejects.toThrow(CircuitOpenError);
+    expect(calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,137 @@
+import { weaveCitations } from 'admesh';
+
+const response = {
+  response: {
+    recommendations: [
+      {
+        ad_id: 'ad_1',
+        admesh_link: 'https://useadmesh.com/r/hubspot',
+        product_id: 'prod_1',
+        reason: 'Great for remote teams',
+        title: 'HubSpot CRM',
+        slug: 'hubspot',
+      },
+      {
+        ad_id: 'ad_2',
+        admesh_link: 'https://useadmesh.com/r/pipedrive',
+        product_id: 'prod_2',
+        reason: 'Simple pipelines',
+        title: 'Pipedrive',
+      },
+    ],
+    followup_suggestions: [
+      {
+        label: 'Compare with Salesforce',
+        product_mentions: ['Salesforce', 'HubSpot'],
+        admesh_links: {
+          salesforce: 'https://useadmesh.com/r/salesforce',
+          hubspot: 'https://example.com/other',
+        },
+      },
+    ],
+  },
+};
+
+describe('weaveCitations', () => {
+  test('links the first mention of each product with footnotes', () => {
+    const { text, citations } = weaveCitations(
+      'For small teams, hubspot crm is easy to start with. Pipedrive suits sales-heavy teams; HubSpot also has a free tier. Larger teams pick salesforce.',
+      response,
+    );
+
+    expect(text).toEqual(
+      [
+        'For small teams, [hubspot crm](https://useadmesh.com/r/hubspot)[^1] is easy to start with. [Pipedrive](https://useadmesh.com/r/pipedrive)[^2] suits sales-heavy teams; HubSpot also has a free tier. Larger teams pick [salesforce](https://useadmesh.com/r/salesforce)[^3].',
+        '',
+        '[^1]: [HubSpot CRM](https://useadmesh.com/r/hubspot)',
+        '[^2]: [Pipedrive](https://useadmesh.com/r/pipedrive)',
+        '[^3]: [Salesforce](https://useadmesh.com/r/salesforce)',
+      ].join('\n'),
+    );
+    expect(citations.map((c) => [c.index, c.title, c.mentions, c.recommendation?.ad_id])).toEqual([
+      [1, 'HubSpot CRM', 1, 'ad_1'],
+      [2, 'Pipedrive', 1, 'ad_2'],
+      [3, 'Salesforce', 1, undefined],
+    ]);
+  });
+
+  test('respects maxLinksPerProduct', () => {
+    const { text } = weaveCitations('Pipedrive, pipedrive and PIPEDRIVE.', response, {
+      maxLinksPerProduct: 2,
+      footnotes: false,
+    });
+    expect(text).toEqual(
+      '[Pipedrive](https://useadmesh.com/r/pipedrive), [pipedrive](https://useadmesh.com/r/pipedrive) and PIPEDRIVE.',
+    );
+  });
+
+  test('links nothing when maxLinksPerProduct is 0', () => {
+    expect(weaveCitations('Pipedrive or HubSpot.', response, { maxLinksPerProduct: 0 })).toEqual({
+      text: 'Pipedrive or HubSpot.',
+      citations: [],
+    });
+  });
+
+  test('does not link javascript: URLs', () => {
+    const hostile = {
+      response: {
+        recommendations: [{ ...response.response.recommendations[1]!, admesh_link: 'javascript:alert(1)' }],
+        followup_suggestions: [
+          { product_mentions: ['Salesforce'], admesh_links: { Salesforce: 'javascript:alert(2)' } },
+        ],
+      },
+    };
+    expect(weaveCitations('Pipedrive or Salesforce.', hostile)).toEqual({
+      text: 'Pipedrive or Salesforce.',
+      citations: [],
+    });
+  });
+
+  test('matches names with a typo only when fuzzy matching is on', () => {
+    expect(weaveCitations('Try Pipedrve.', response, { fuzzy: true, footnotes: false }).text).toEqual(
+      'Try [Pipedrve](https://useadmesh.com/r/pipedrive).',
+    );
+    expect(weaveCitations('Try Pipedrve.', response).text).toEqual('Try Pipedrve.');
+  });
+
+  test('does not link words that only resemble a product name', () => {
+    const stripe = {
+      response: {
+        recommendations: [
+          {
+            ad_id: 'ad_3',
+            admesh_link: 'https://useadmesh.com/r/stripe',
+            product_id: 'prod_3',
+            reason: 'Payments',
+            title: 'Stripe',
+          },
+        ],
+      },
+    };
+    expect(weaveCitations('The tool strips whitespace.', stripe)).toEqual({
+      text: 'The tool strips whitespace.',
+      citations: [],
+    });
+  });
+
+  test('does not rewrite code, links or URLs', () => {
+    const answer = [
+      'See [Pipedrive docs](https://pipedrive.com) or https://hubspot.com/pricing.',
+      'Run `pipedrive sync`.',
+      '```',
+      'hubspot.login()',
+      '```',
+      'Otherwise use HubSpot.',
+    ].join('\n');
+    const { text, citations } = weaveCitations(answer, response, { footnotes: false });
+    expect(text).toEqual(answer.replace('use HubSpot.', 'use [HubSpot](https://useadmesh.com/r/hubspot).'));
+    expect(citations).toHaveLength(1);
+  });
+
+  test('leaves answers without mentions unchanged', () => {
+    expect(weaveCitations('No products here.', response)).toEqual({
+      text: 'No products here.',
+      citations: [],
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import Admesh, { AdmeshError, toFollowupChips } from 'admesh';
+
+const suggestion = {
+  label: 'Compare HubSpot with Salesforce',
+  query: 'Compare HubSpot CRM with Salesforce for remote teams',
+  product_mentions: ['HubSpot', 'Salesforce'],
+  admesh_links: {
+    hubspot: 'https://useadmesh.com/click/hubspot',
+    Salesforce: 'https://useadmesh.com/click/salesforce?a=1&b=2',
+  },
+  session_id: 'sess_1',
+};
+
+describe('recommend.followUp', () => {
+  test('sends the suggestion query with its session', async () => {
+    const bodies: any[] = [];
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      fetch: async (_url, init) => {
+        bodies.push(JSON.parse(init?.body as string));
+        return new Response(JSON.stringify({ response: { recommendations: [{}] } }), {
+          headers: { 'content-type': 'application/json' },
+        });
+      },
+    });
+
+    await client.recommend.followUp(suggestion, { previous_query: 'Best CRM', previous_summary: 'Summary' });
+    expect(bodies[0]).toEqual({
+      query: 'Compare HubSpot CRM with Salesforce for remote teams',
+      session_id: 'sess_1',
+      previous_query: 'Best CRM',
+      previous_summary: 'Summary',
+    });
+  });
+
+  test('sends the query and summary the suggestion came from', async () => {
+    const bodies: any[] = [];
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      fetch: async (_url, init) => {
+        bodies.push(JSON.parse(init?.body as string));
+        return new Response(
+          JSON.stringify({
+            response: {
+              summary: 'HubSpot is a good fit',
+              recommendations: [{}],
+              followup_suggestions: [suggestion],
+            },
+          }),
+          { headers: { 'content-type': 'application/json' } },
+        );
+      },
+    });
+
+    const response = await client.recommend.getRecommendations({ query: 'Best CRM' });
+    await client.recommend.followUp(response.response!.followup_suggestions![0]!);
+    expect(bodies[1]).toEqual({
+      query: 'Compare HubSpot CRM with Salesforce for remote teams',
+      session_id: 'sess_1',
+      previous_query: 'Best CRM',
+      previous_summary: 'HubSpot is a good fit',
+    });
+  });
+
+  test('requires a query or label', async () => {
+    const client = new Admesh({ apiKey: 'My API Key', baseURL: 'http://localhost:5000/' });
+    await expect(client.recommend.followUp({ session_id: 'sess_1' })).rejects.toThrow(AdmeshError);
+    await client.recommend.followUp({}).catch((err) => expect(err).toBeInstanceOf(AdmeshError));
+  });
+});
+
+describe('toFollowupChips', () => {
+  test('substitutes tracked links into the label', () => {
+    const [chip] = toFollowupChips([suggestion]);
+    expect(chip!.query).toEqual(suggestion.query);
+    expect(chip!.text).toEqual(
+      'Compare [HubSpot](https://useadmesh.com/click/hubspot) with [Salesforce](https://useadmesh.com/click/salesforce?a=1&b=2)',
+    );
+    expect(chip!.segments).toEqual([
+      { text: 'Compare ' },
+      { text: 'HubSpot', href: 'https://useadmesh.com/click/hubspot', product: 'HubSpot' },
+      { text: ' with ' },
+      {
+        text: 'Salesforce',
+        href: 'https://useadmesh.com/click/salesforce?a=1&b=2',
+        product: 'Salesforce',
+      },
+    ]);
+  });
+
+  test('html links are escaped', () => {
+    const [chip] = toFollowupChips([{ ...suggestion, label: 'Is Salesforce <good>?' }], {
+      linkFormat: 'html',
+    });
+    expect(chip!.text).toEqual(
+      'Is <a href="https://useadmesh.com/click/salesforce?a=1&amp;b=2">Salesforce</a> &lt;good&gt;?',
+    );
+  });
+
+  test('does not link javascript: URLs', () => {
+    const hostile = { ...suggestion, admesh_links: { HubSpot: 'javascript:alert(1)' } };
+    for (const linkFormat of ['markdown', 'html'] as const) {
+      const [chip] = toFollowupChips([hostile], { linkFormat });
+      expect(chip!.text).toEqual('Compare HubSpot with Salesforce');
+      expect(chip!.segments).toEqual([{ text: 'Compare HubSpot with Salesforce' }]);
+    }
+  });
+
+  test('only whole words are linked', () => {
+    const [chip] = toFollowupChips([{ ...suggestion, label: 'HubSpotter tips' }]);
+    expect(chip!.text).toEqual('HubSpotter tips');
+  });
+
+  test('skips empty suggestions', () => {
+    expect(toFollowupChips([{}])).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { DEFAULT_DISCLOSURE, formatRecommendations } from 'admesh';
+
+const response = {
+  response: {
+    summary: 'Here are a few CRMs for remote teams.',
+    recommendations: [
+      {
+        ad_id: 'ad_1',
+        admesh_link: 'https://useadmesh.com/r/1?a=1&b=2',
+        product_id: 'prod_1',
+        reason: 'Great for <small> teams',
+        title: 'HubSpot [CRM]',
+        pricing: 'From $20/mo',
+        trial_days: 14,
+        has_free_tier: true,
+      },
+      {
+        ad_id: 'ad_2',
+        admesh_link: 'https://useadmesh.com/r/2',
+        product_id: 'prod_2',
+        reason: 'Enterprise ready',
+        title: 'Salesforce',
+      },
+    ],
+    followup_suggestions: [{ label: 'Compare HubSpot with Salesforce', query: 'hubspot vs salesforce' }],
+  },
+};
+
+describe('formatRecommendations', () => {
+  test('markdown', () => {
+    expect(formatRecommendations(response)).toEqual(
+      [
+        'Here are a few CRMs for remote teams.',
+        '',
+        '1. **[HubSpot \\[CRM\\]](https://useadmesh.com/r/1?a=1&b=2)** — Great for \\<small\\> teams `Free tier` `14-day trial` `From $20/mo`',
+        '2. **[Salesforce](https://useadmesh.com/r/2)** — Enterprise ready',
+        '',
+        '**Follow-up questions:**',
+        '- Compare HubSpot with Salesforce',
+        '',
+        `_${DEFAULT_DISCLOSURE}_`,
+      ].join('\n'),
+    );
+  });
+
+  test('markdown escapes API-provided text', () => {
+    const hostile = {
+      response: {
+        summary: 'See *this* <img src=x onerror=alert(1)>',
+        recommendations: [
+          {
+            ad_id: 'ad_1',
+            admesh_link: 'https://useadmesh.com/r/1',
+            product_id: 'prod_1',
+            reason: '[x](javascript:alert(1))',
+            title: 'HubSpot',
+            pricing: '`$20`/mo',
+          },
+        ],
+        followup_suggestions: [{ label: 'Try [this](javascript:alert(2))' }],
+      },
+    };
+    expect(formatRecommendations(hostile, { disclosure: 'Ad' })).toEqual(
+      [
+        'See \\*this\\* \\<img src=x onerror=alert(1)\\>',
+        '',
+        '1. **[HubSpot](https://useadmesh.com/r/1)** — \\[x\\](javascript:alert(1)) `` `$20`/mo ``',
+        '',
+        '**Follow-up questions:**',
+        '- Try \\[this\\](javascript:alert(2))',
+        '',
+        '_Ad_',
+      ].join('\n'),
+    );
+  });
+
+  test('html escapes API-provided text', () => {
+    const html = formatRecommendations(response, { format: 'html', badges: { pricing: true } });
+    expect(html).toContain(
+      '<li><a href="https://useadmesh.com/r/1?a=1&amp;b=2" rel="sponsored noopener" target="_blank">HubSpot [CRM]</a> — Great for &lt;small&gt; teams <span class="admesh-badge">From $20/mo</span></li>',
+    );
+    expect(html).not.toContain('trial');
+    expect(html).toContain('<li>Compare HubSpot with Salesforce</li>');
+    expect(html.endsWith(`<p class="admesh-disclosure">${DEFAULT_DISCLOSURE}</p>`)).toBe(true);
+  });
+
+  test('text', () => {
+    expect(
+      formatRecommendations(response, {
+        format: 'text',
+        includeSummary: false,
+        includeFollowups: false,
+        maxRecommendations: 1,
+      }),
+    ).toEqual(
+      [
+        '[1] HubSpot [CRM] - Great for <small> teams (Free tier, 14-day trial, From $20/mo)',
+        '    https://useadmesh.com/r/1?a=1&b=2',
+        '',
+        DEFAULT_DISCLOSURE,
+      ].join('\n'),
+    );
+  });
+
+  test('drops links that are not http or https', () => {
+    const unsafe = {
+      response: {
+        recommendations: [
+          {
+            ad_id: 'ad_3',
+            admesh_link: 'javascript:alert(1)',
+            product_id: 'prod_3',
+            reason: 'Free forever',
+            title: 'Pipedrive',
+          },
+        ],
+      },
+    };
+    const options = { includeFollowups: false, badges: false, disclosure: 'Ad' };
+    const html = formatRecommendations(unsafe, { ...options, format: 'html' });
+    expect(html).not.toContain('javascript:');
+    expect(html).toContain('<li>Pipedrive — Free forever</li>');
+    expect(formatRecommendations(unsafe, options)).toEqual('1. **Pipedrive** — Free forever\n\n_Ad_');
+    expect(formatRecommendations(unsafe, { ...options, format: 'text' })).toEqual(
+      '[1] Pipedrive - Free forever\n\nAd',
+    );
+  });
+
+  test('always renders a disclosure', () => {
+    expect(formatRecommendations({}, { format: 'text', disclosure: '  ' })).toEqual(DEFAULT_DISCLOSURE);
+    expect(formatRecommendations({}, { format: 'auto', disclosure: 'Ad' })).toEqual('_Ad_');
+  });
+});
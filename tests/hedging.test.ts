@@ -0,0 +1,164 @@
+import Admesh, { CircuitBreaker, RateLimiter } from 'admesh';
+
+type Call = { body: string; headers: Headers; aborted: boolean };
+
+/**
+ * A fetch whose n-th call responds after `delays[n]` milliseconds, or fails if the delay is negative.
+ */
+function delayedFetch(delays: number[], calls: Call[], status = 200) {
+  return (url: string, init: RequestInit): Promise<Response> => {
+    const index = calls.length;
+    const call: Call = { body: init.body as string, headers: new Headers(init.headers), aborted: false };
+    calls.push(call);
+    const delay = delays[index] ?? 0;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (delay < 0) return reject(new TypeError('fetch failed'));
+        resolve(
+          new Response(JSON.stringify({ response: { recommendations: [], summary: `call ${index + 1}` } }), {
+            status,
+            headers: { 'content-type': 'application/json' },
+          }),
+        );
+      }, Math.abs(delay));
+      init.signal?.addEventListener('abort', () => {
+        call.aborted = true;
+        clearTimeout(timer);
+        reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+      });
+    });
+  };
+}
+
+function makeClient(fetch: any, options: Partial<ConstructorParameters<typeof Admesh>[0]> = {}) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    logLevel: 'off',
+    fetch,
+    ...options,
+  });
+}
+
+const summary = (response: Admesh.RecommendGetRecommendationsResponse) => response.response?.summary;
+
+describe('request hedging', () => {
+  test('sends a second request when the first is slow and aborts the loser', async () => {
+    const calls: Call[] = [];
+    const client = makeClient(delayedFetch([200, 10], calls), { hedgeAfter: 20 });
+
+    const response = await client.recommend.getRecommendations({
+      query: 'crm',
+      raiseOnEmptyRecommendations: false,
+    });
+    expect(summary(response)).toBe('call 2');
+    expect(calls).toHaveLength(2);
+    expect(calls[0]!.aborted).toBe(true);
+    expect(calls[1]!.aborted).toBe(false);
+    expect(calls[1]!.body).toBe(calls[0]!.body);
+  });
+
+  test('keeps the first response if it arrives before the hedge', async () => {
+    const calls: Call[] = [];
+    const client = makeClient(delayedFetch([40, 200], calls), { hedgeAfter: 20 });
+
+    const response = await client.recommend.getRecommendations({
+      query: 'crm',
+      raiseOnEmptyRecommendations: false,
+    });
+    expect(summary(response)).toBe('call 1');
+    expect(calls).toHaveLength(2);
+    expect(calls[1]!.aborted).toBe(true);
+  });
+
+  test('does not hedge fast requests', async () => {
+    const calls: Call[] = [];
+    const client = makeClient(delayedFetch([5], calls), { hedgeAfter: 50 });
+
+    await client.recommend.getRecommendations({ query: 'crm', raiseOnEmptyRecommendations: false });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(calls).toHaveLength(1);
+  });
+
+  test('uses the same idempotency key', async () => {
+    const calls: Call[] = [];
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      fetch: delayedFetch([200, 10, 200, 10], calls) as any,
+      hedgeAfter: 20,
+    });
+
+    await client.recommend.getRecommendations({ query: 'crm', raiseOnEmptyRecommendations: false });
+    expect(calls).toHaveLength(2);
+    expect(calls[0]!.headers.get('idempotency-key')).toBeTruthy();
+    expect(calls[1]!.headers.get('idempotency-key')).toBe(calls[0]!.headers.get('idempotency-key'));
+
+    await client.post('/foo', { hedgeAfter: 20 });
+    expect(calls[3]!.headers.get('idempotency-key')).toBeTruthy();
+    expect(calls[3]!.headers.get('idempotency-key')).toBe(calls[2]!.headers.get('idempotency-key'));
+  });
+
+  test('does not send an idempotency key on requests that are not hedged', async () => {
+    const calls: Call[] = [];
+    const client = makeClient(delayedFetch([5], calls));
+
+    await client.post('/foo');
+    expect(calls[0]!.headers.get('idempotency-key')).toBeNull();
+  });
+
+  test('only applies to other requests when asked', async () => {
+    const calls: Call[] = [];
+    const client = makeClient(delayedFetch([40, 40, 10], calls), { hedgeAfter: 20 });
+
+    await client.post('/foo');
+    expect(calls).toHaveLength(1);
+
+    await client.post('/foo', { hedgeAfter: 10 });
+    expect(calls).toHaveLength(3);
+  });
+
+  test('uses the other response if one fails', async () => {
+    const calls: Call[] = [];
+    const client = makeClient(delayedFetch([-40, 40], calls), { hedgeAfter: 20, maxRetries: 0 });
+
+    const response = await client.recommend.getRecommendations({
+      query: 'crm',
+      raiseOnEmptyRecommendations: false,
+    });
+    expect(summary(response)).toBe('call 2');
+  });
+
+  test('counts toward the rate limiter', async () => {
+    const calls: Call[] = [];
+    const rateLimit = new RateLimiter({ limit: 2, interval: 60 * 1000 });
+    const client = makeClient(delayedFetch([200, 10, 50, 10], calls), { hedgeAfter: 20, rateLimit });
+
+    await client.post('/foo', { hedgeAfter: 20 });
+    expect(calls).toHaveLength(2);
+    // The hedged request took the last token.
+    expect(rateLimit.tryAcquire()).toBe(false);
+  });
+
+  test('counts toward the circuit breaker', async () => {
+    const calls: Call[] = [];
+    const circuitBreaker = new CircuitBreaker({ failureThresholds: { connection: 2 } });
+    const client = makeClient(delayedFetch([-40, -30], calls), { circuitBreaker, maxRetries: 0 });
+
+    await expect(client.post('/foo', { hedgeAfter: 20 })).rejects.toThrow(Admesh.APIConnectionError);
+    expect(calls).toHaveLength(2);
+    expect(circuitBreaker.state).toBe('open');
+  });
+
+  test('does not hedge while the circuit is half-open', async () => {
+    const calls: Call[] = [];
+    const circuitBreaker = new CircuitBreaker({ failureThresholds: { '5xx': 1 }, cooldown: 0 });
+    circuitBreaker.acquire();
+    circuitBreaker.record(500);
+    const client = makeClient(delayedFetch([40, 10], calls), { circuitBreaker });
+
+    await client.post('/foo', { hedgeAfter: 10 });
+    expect(calls).toHaveLength(1);
+    expect(circuitBreaker.state).toBe('closed');
+  });
+});
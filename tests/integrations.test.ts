@@ -0,0 +1,62 @@
+import Admesh, { formatToolResult } from 'admesh';
+import { recommendationsTool } from 'admesh/integrations/ai-sdk';
+import { AdmeshRecommendationsTool } from 'admesh/integrations/langchain';
+
+const response = {
+  response: {
+    recommendations: [
+      {
+        ad_id: 'ad_1',
+        admesh_link: 'https://useadmesh.com/r/1',
+        product_id: 'prod_1',
+        reason: 'Great for remote teams',
+        title: 'HubSpot',
+      },
+    ],
+  },
+};
+
+function makeClient(bodies: any[]) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    fetch: async (_url, init) => {
+      bodies.push(JSON.parse(init?.body as string));
+      return new Response(JSON.stringify(response), { headers: { 'content-type': 'application/json' } });
+    },
+  });
+}
+
+describe('Vercel AI SDK integration', () => {
+  test('executes with sanitized input', async () => {
+    const bodies: any[] = [];
+    const tool = recommendationsTool(makeClient(bodies), { params: { format: 'auto' } });
+
+    expect(tool.description).toContain('recommendations');
+    const result = await tool.execute!(
+      { query: 'CRM for my startup, email me at priya@example.com' },
+      { toolCallId: 'call_1', messages: [] },
+    );
+
+    expect(bodies).toEqual([{ format: 'auto', query: 'CRM for my startup, email me at [EMAIL]' }]);
+    expect(result).toEqual(formatToolResult(response));
+  });
+});
+
+describe('LangChain.js integration', () => {
+  test('invokes with sanitized input', async () => {
+    const bodies: any[] = [];
+    const tool = new AdmeshRecommendationsTool({ client: makeClient(bodies) });
+
+    expect(tool.name).toEqual('get_recommendations');
+    const result = await tool.invoke({ query: 'CRM for my startup, email me at priya@example.com' });
+
+    expect(bodies).toEqual([{ query: 'CRM for my startup, email me at [EMAIL]' }]);
+    expect(result).toEqual(formatToolResult(response));
+  });
+
+  test('validates input against the schema', async () => {
+    const tool = new AdmeshRecommendationsTool({ client: makeClient([]) });
+    await expect(tool.invoke({ query: 1 } as any)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,149 @@
+import Admesh, { LogRedactor } from 'admesh';
+import { PIISanitizer } from 'admesh/sanitizer';
+
+function makeClient(options: Partial<ConstructorParameters<typeof Admesh>[0]>) {
+  const lines: Array<[level: string, ...args: unknown[]]> = [];
+  const logger = {
+    error: (...args: unknown[]) => lines.push(['error', ...args]),
+    warn: (...args: unknown[]) => lines.push(['warn', ...args]),
+    info: (...args: unknown[]) => lines.push(['info', ...args]),
+    debug: (...args: unknown[]) => lines.push(['debug', ...args]),
+  };
+  const client = new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    logger,
+    logLevel: 'debug',
+    fetch: async () =>
+      new Response(JSON.stringify({ response: { recommendations: [{ title: 'A' }] } }), {
+        headers: { 'content-type': 'application/json' },
+      }),
+    ...options,
+  });
+  return { client, lines };
+}
+
+const query = "Hi, I'm Priya, email priya@gmail.com, looking for a CRM";
+
+describe('logging', () => {
+  test('redacts secret headers and personal information in queries', async () => {
+    const { client, lines } = makeClient({});
+
+    await client.recommend.getRecommendations(
+      { query, previous_query: 'call me on (555) 123-4567' },
+      { headers: { 'X-Api-Key': 'secret' } },
+    );
+
+    const sent = lines.find(([, message]) => String(message).endsWith('sending request'))!;
+    const details = sent[2] as any;
+    expect(details.headers['authorization']).toBe('***');
+    expect(details.headers['x-api-key']).toBe('***');
+    expect(details.options.body.query).toBe("Hi, I'm [NAME], email [EMAIL], looking for a CRM");
+    expect(details.options.body.previous_query).toBe('call me on [PHONE]');
+    expect(JSON.stringify(lines)).not.toContain('priya@gmail.com');
+    expect(JSON.stringify(lines)).not.toContain('My API Key');
+  });
+
+  test('does not change the request that is sent', async () => {
+    const bodies: string[] = [];
+    const { client } = makeClient({
+      fetch: async (_url, init) => {
+        bodies.push(init?.body as string);
+        return new Response('{}', { headers: { 'content-type': 'application/json' } });
+      },
+    });
+
+    await client.post('/foo', { body: { query } });
+    expect(JSON.parse(bodies[0]!)).toEqual({ query });
+  });
+
+  test('emits JSON records', async () => {
+    const { client, lines } = makeClient({ logFormat: 'json', logLevel: 'info' });
+
+    await client.recommend.getRecommendations({ query });
+
+    expect(lines).toHaveLength(1);
+    const [level, message, ...rest] = lines[0]!;
+    expect(level).toBe('info');
+    expect(rest).toEqual([]);
+    expect(JSON.parse(message as string)).toEqual({
+      level: 'info',
+      time: expect.any(String),
+      message: expect.stringMatching(
+        /^post http:\/\/localhost:5000\/agent\/recommend succeeded with status 200 in \d+ms$/,
+      ),
+      requestLogID: expect.stringMatching(/^log_/),
+      method: 'post',
+      url: 'http://localhost:5000/agent/recommend',
+      status: 200,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  test('JSON records include redacted details', async () => {
+    const { client, lines } = makeClient({ logFormat: 'json' });
+
+    await client.recommend.getRecommendations({ query });
+
+    const records = lines.map(([, message]) => JSON.parse(message as string));
+    const sent = records.find((record) => record.message === 'sending request');
+    expect(sent).toMatchObject({
+      level: 'debug',
+      requestLogID: expect.stringMatching(/^log_/),
+      method: 'post',
+      url: 'http://localhost:5000/agent/recommend',
+      headers: { authorization: '***' },
+      options: { body: { query: "Hi, I'm [NAME], email [EMAIL], looking for a CRM" } },
+    });
+    const parsed = records.find((record) => record.message === 'response parsed');
+    expect(parsed).toMatchObject({ requestLogID: sent.requestLogID, status: 200 });
+  });
+
+  test('logs errors in JSON records', async () => {
+    const failing = async () => {
+      throw new TypeError('store is down');
+    };
+    const { client, lines } = makeClient({
+      logFormat: 'json',
+      logLevel: 'warn',
+      cache: { store: { get: failing, set: failing, delete: failing } },
+    });
+
+    await client.recommend.getRecommendations({ query });
+
+    const record = JSON.parse(lines[0]![1] as string);
+    expect(record).toMatchObject({
+      level: 'warn',
+      message: 'response cache error',
+      error: { name: 'TypeError', message: 'store is down' },
+    });
+  });
+
+  test('rules are configurable', () => {
+    const sanitizer = new PIISanitizer();
+    const redactor = new LogRedactor({
+      headers: ['x-secret'],
+      piiFields: ['text'],
+      maskFields: ['session_id'],
+      sanitizer,
+    });
+
+    expect(
+      redactor.redact({
+        headers: { 'X-Secret': 'a', authorization: 'b' },
+        options: { body: { messages: [{ text: 'mail bob@example.com' }], session_id: 's1', query } },
+      }),
+    ).toEqual({
+      headers: { 'X-Secret': '***', authorization: 'b' },
+      options: { body: { messages: [{ text: 'mail [EMAIL]' }], session_id: '***', query } },
+    });
+    expect(redactor.redact('text')).toBe('text');
+  });
+
+  test('redaction can be turned off', async () => {
+    const { client, lines } = makeClient({ logRedaction: false });
+
+    await client.recommend.getRecommendations({ query });
+    expect(JSON.stringify(lines)).toContain('priya@gmail.com');
+  });
+});
@@ -0,0 +1,191 @@
+import Admesh, { type ClientOptions } from 'admesh';
+import { AdmeshMCPServer, runStdioServer } from 'admesh/lib/mcp-server';
+
+const response = {
+  session_id: 'sess_1',
+  response: {
+    summary: 'A few CRMs for remote teams.',
+    recommendations: [
+      {
+        ad_id: 'ad_1',
+        admesh_link: 'https://useadmesh.com/r/1',
+        product_id: 'prod_1',
+        reason: 'Great for remote teams',
+        title: 'HubSpot',
+      },
+    ],
+    followup_suggestions: [{ label: 'Compare with Salesforce', query: 'HubSpot vs Salesforce' }],
+  },
+};
+
+function clientOptions(bodies: any[]): ClientOptions {
+  return {
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    fetch: async (_url, init) => {
+      bodies.push(JSON.parse(init?.body as string));
+      return new Response(JSON.stringify(response), { headers: { 'content-type': 'application/json' } });
+    },
+  };
+}
+
+function makeClient(bodies: any[]) {
+  return new Admesh(clientOptions(bodies));
+}
+
+let id = 0;
+function request(server: AdmeshMCPServer, method: string, params?: object) {
+  return server.handleMessage({ jsonrpc: '2.0', id: ++id, method, ...(params && { params }) });
+}
+
+describe('AdmeshMCPServer', () => {
+  test('initializes', async () => {
+    const server = new AdmeshMCPServer({ client: makeClient([]) });
+    const result: any = await request(server, 'initialize', { protocolVersion: '2025-03-26' });
+    expect(result.result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: {}, resources: { listChanged: true } },
+      serverInfo: { name: 'admesh' },
+    });
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+  });
+
+  test('lists tools', async () => {
+    const server = new AdmeshMCPServer({ client: makeClient([]) });
+    const result: any = await request(server, 'tools/list');
+    expect(result.result.tools.map((tool: any) => tool.name)).toEqual(['get_recommendations', 'follow_up']);
+  });
+
+  test('calls get_recommendations and exposes the result as resources', async () => {
+    const bodies: any[] = [];
+    const server = new AdmeshMCPServer({ client: makeClient(bodies) });
+    const notifications: any[] = [];
+    server.onNotification = (notification) => notifications.push(notification);
+
+    const result: any = await request(server, 'tools/call', {
+      name: 'get_recommendations',
+      arguments: { query: 'Best CRM' },
+    });
+    expect(bodies).toEqual([{ query: 'Best CRM' }]);
+    expect(result.result.content[0].text).toContain('1. HubSpot - Great for remote teams');
+    expect(result.result.isError).toBeUndefined();
+    expect(notifications).toEqual([{ jsonrpc: '2.0', method: 'notifications/resources/list_changed' }]);
+
+    const resources: any = await request(server, 'resources/list');
+    expect(resources.result.resources).toEqual([
+      {
+        uri: 'admesh://recommendations/prod_1',
+        name: 'HubSpot',
+        description: 'Great for remote teams',
+        mimeType: 'application/json',
+      },
+    ]);
+
+    const read: any = await request(server, 'resources/read', { uri: 'admesh://recommendations/prod_1' });
+    expect(JSON.parse(read.result.contents[0].text)).toEqual(response.response.recommendations[0]);
+
+    const missing: any = await request(server, 'resources/read', { uri: 'admesh://recommendations/nope' });
+    expect(missing.error.code).toEqual(-32002);
+  });
+
+  test('follows up in the same session', async () => {
+    const bodies: any[] = [];
+    const server = new AdmeshMCPServer({ client: makeClient(bodies) });
+
+    const early: any = await request(server, 'tools/call', { name: 'follow_up', arguments: { index: 1 } });
+    expect(early.result.isError).toBe(true);
+
+    await request(server, 'tools/call', { name: 'get_recommendations', arguments: { query: 'Best CRM' } });
+    await request(server, 'tools/call', { name: 'follow_up', arguments: { index: 1 } });
+    expect(bodies[1]).toEqual({
+      query: 'HubSpot vs Salesforce',
+      session_id: 'sess_1',
+      previous_query: 'Best CRM',
+      previous_summary: 'A few CRMs for remote teams.',
+    });
+  });
+
+  test('reports invalid tool arguments as tool errors', async () => {
+    const server = new AdmeshMCPServer({ client: makeClient([]) });
+    const result: any = await request(server, 'tools/call', { name: 'get_recommendations', arguments: {} });
+    expect(result.result.isError).toBe(true);
+
+    const unknown: any = await request(server, 'tools/call', { name: 'nope', arguments: {} });
+    expect(unknown.error.code).toEqual(-32602);
+    const method: any = await request(server, 'nope');
+    expect(method.error.code).toEqual(-32601);
+  });
+});
+
+describe('runStdioServer', () => {
+  test('speaks newline-delimited JSON-RPC', async () => {
+    const lines = [
+      JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }),
+      JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      'not json',
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'get_recommendations', arguments: { query: 'Best CRM' } },
+      }),
+    ];
+    const encoder = new TextEncoder();
+    async function* input() {
+      const text = lines.join('\n') + '\n';
+      // Split mid-line to exercise buffering.
+      yield encoder.encode(text.slice(0, 30));
+      yield encoder.encode(text.slice(30));
+    }
+    let written = '';
+
+    await runStdioServer({
+      client: makeClient([]),
+      input: input(),
+      output: { write: (chunk) => (written += chunk) },
+    });
+
+    const messages = written
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(messages.find((m) => m.id === 1).result.serverInfo.name).toEqual('admesh');
+    expect(messages.find((m) => m.error?.code === -32700)).toBeTruthy();
+    expect(messages.find((m) => m.method === 'notifications/resources/list_changed')).toBeTruthy();
+    expect(messages.find((m) => m.id === 2).result.content[0].text).toContain('HubSpot');
+  });
+
+  test('the default client logs to stderr', async () => {
+    const stdout = ['log', 'info', 'debug', 'warn'].map((method) =>
+      jest.spyOn(console, method as 'log').mockImplementation(() => {}),
+    );
+    const stderr = jest.spyOn(console, 'error').mockImplementation(() => {});
+    async function* input() {
+      yield JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/call',
+        params: { name: 'get_recommendations', arguments: { query: 'Best CRM' } },
+      }) + '\n';
+    }
+    let written = '';
+
+    try {
+      await runStdioServer({
+        clientOptions: { ...clientOptions([]), logLevel: 'debug' },
+        input: input(),
+        output: { write: (chunk) => (written += chunk) },
+      });
+
+      const messages = written
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(messages.find((m) => m.id === 1).result.content[0].text).toContain('HubSpot');
+      expect(stderr).toHaveBeenCalled();
+      stdout.forEach((spy) => expect(spy).not.toHaveBeenCalled());
+    } finally {
+      [...stdout, stderr].forEach((spy) => spy.mockRestore());
+    }
+  });
+});
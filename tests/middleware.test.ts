@@ -0,0 +1,147 @@
+import Admesh, { type Middleware } from 'admesh';
+
+function makeClient(middleware: Middleware[], statuses: number[] = [], calls: any[] = []) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    middleware,
+    fetch: async (url, init) => {
+      calls.push({ url, headers: new Headers(init?.headers as Headers) });
+      const status = statuses.shift() ?? 200;
+      if (status === 0) throw new TypeError('fetch failed');
+      return new Response(JSON.stringify({ status }), {
+        status,
+        headers: { 'content-type': 'application/json', 'retry-after-ms': '1' },
+      });
+    },
+  });
+}
+
+describe('middleware', () => {
+  test('runs in array order around each attempt', async () => {
+    const order: string[] = [];
+    const trace =
+      (name: string): Middleware =>
+      async (req, next) => {
+        order.push(`${name}:${req.retryCount}`);
+        const response = await next(req);
+        order.push(`${name}:${response.status}`);
+        return response;
+      };
+    const client = makeClient([trace('a'), trace('b')], [500]);
+
+    await client.post('/foo');
+    expect(order).toEqual(['a:0', 'b:0', 'b:500', 'a:500', 'a:1', 'b:1', 'b:200', 'a:200']);
+  });
+
+  test('can modify the request', async () => {
+    const calls: any[] = [];
+    const client = makeClient(
+      [
+        async (req, next) => {
+          req.init.headers.set('X-Signature', `sig-${req.retryCount}`);
+          return next({ ...req, url: req.url.replace('/foo', '/bar') });
+        },
+      ],
+      [503],
+      calls,
+    );
+
+    await client.post('/foo');
+    expect(calls.map((call) => call.url)).toEqual(['http://localhost:5000/bar', 'http://localhost:5000/bar']);
+    expect(calls.map((call) => call.headers.get('x-signature'))).toEqual(['sig-0', 'sig-1']);
+  });
+
+  test('can replay a request, e.g. to refresh auth', async () => {
+    let token = 'expired';
+    const calls: any[] = [];
+    const client = makeClient(
+      [
+        async (req, next) => {
+          req.init.headers.set('Authorization', `Bearer ${token}`);
+          const response = await next(req);
+          if (response.status !== 401) return response;
+          token = 'fresh';
+          req.init.headers.set('Authorization', `Bearer ${token}`);
+          return next(req);
+        },
+      ],
+      [401],
+      calls,
+    );
+
+    expect(await client.post('/foo')).toEqual({ status: 200 });
+    expect(calls.map((call) => call.headers.get('authorization'))).toEqual([
+      'Bearer expired',
+      'Bearer fresh',
+    ]);
+  });
+
+  test('can rewrite the response', async () => {
+    const client = makeClient([
+      async (req, next) => {
+        await next(req);
+        return new Response(JSON.stringify({ rewritten: true }), {
+          headers: { 'content-type': 'application/json' },
+        });
+      },
+    ]);
+    expect(await client.post('/foo')).toEqual({ rewritten: true });
+  });
+
+  test('responses from middleware are retried like any other', async () => {
+    let attempts = 0;
+    const client = makeClient([
+      async (req, next) => {
+        attempts++;
+        return req.retryCount < 2 ?
+            new Response('', { status: 503, headers: { 'retry-after-ms': '1' } })
+          : next(req);
+      },
+    ]);
+    expect(await client.post('/foo')).toEqual({ status: 200 });
+    expect(attempts).toBe(3);
+  });
+
+  test('fetch errors are retried; middleware errors are thrown as they are', async () => {
+    const seen: unknown[] = [];
+    const calls: any[] = [];
+    const client = makeClient(
+      [
+        async (req, next) => {
+          try {
+            return await next(req);
+          } catch (err) {
+            seen.push(err);
+            throw err;
+          }
+        },
+      ],
+      [0],
+      calls,
+    );
+    await client.post('/foo');
+    expect(calls).toHaveLength(2);
+    expect(seen).toHaveLength(1);
+
+    class SigningError extends Error {}
+    const failing = makeClient([
+      async () => {
+        throw new SigningError('no key');
+      },
+    ]);
+    await expect(failing.post('/foo', { maxRetries: 2 })).rejects.toBeInstanceOf(SigningError);
+  });
+
+  test('is kept by withOptions', async () => {
+    const seen: string[] = [];
+    const client = makeClient([
+      async (req, next) => {
+        seen.push(req.url);
+        return next(req);
+      },
+    ]).withOptions({ maxRetries: 0 });
+    await client.post('/foo');
+    expect(seen).toEqual(['http://localhost:5000/foo']);
+  });
+});
@@ -0,0 +1,122 @@
+import Admesh, { formatToolResult, handleOpenAIToolCalls, openAITools } from 'admesh';
+
+const response = {
+  session_id: 'sess_1',
+  response: {
+    summary: 'A few CRMs for remote teams.',
+    recommendations: [
+      {
+        ad_id: 'ad_1',
+        admesh_link: 'https://useadmesh.com/r/1',
+        product_id: 'prod_1',
+        reason: 'Great for remote teams',
+        title: 'HubSpot',
+        pricing: 'From $20/mo',
+        has_free_tier: true,
+      },
+      {
+        ad_id: 'ad_2',
+        admesh_link: 'https://useadmesh.com/r/2',
+        product_id: 'prod_2',
+        reason: 'Simple pipelines',
+        title: 'Pipedrive',
+        trial_days: 14,
+      },
+    ],
+    followup_suggestions: [{ label: 'Compare them', query: 'HubSpot vs Pipedrive' }],
+  },
+};
+
+function makeClient(bodies: any[], body: object = response) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    fetch: async (_url, init) => {
+      bodies.push(JSON.parse(init?.body as string));
+      return new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } });
+    },
+  });
+}
+
+describe('openAITools', () => {
+  test('emits a function tool', () => {
+    const [tool] = openAITools();
+    expect(tool!.type).toEqual('function');
+    expect(tool!.function.name).toEqual('get_recommendations');
+    expect(tool!.function.parameters).toMatchObject({ type: 'object', required: ['query'] });
+    expect(tool!.function).not.toHaveProperty('strict');
+  });
+
+  test('strict mode requires every property', () => {
+    const [tool] = openAITools({ strict: true });
+    expect(tool!.function.strict).toBe(true);
+    const parameters = tool!.function.parameters as any;
+    expect(parameters.required).toEqual(Object.keys(parameters.properties));
+    expect(parameters.properties.session_id.type).toEqual(['string', 'null']);
+    expect(parameters.properties.query.type).toEqual('string');
+  });
+});
+
+describe('handleOpenAIToolCalls', () => {
+  test('dispatches tool calls to getRecommendations', async () => {
+    const bodies: any[] = [];
+    const messages = await handleOpenAIToolCalls(
+      makeClient(bodies),
+      [
+        {
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'get_recommendations', arguments: '{"query":"Best CRM","session_id":null}' },
+        },
+        { id: 'call_2', type: 'function', function: { name: 'other_tool', arguments: '{}' } },
+      ],
+      { params: { format: 'auto' } },
+    );
+
+    expect(bodies).toEqual([{ format: 'auto', query: 'Best CRM' }]);
+    expect(messages).toEqual([{ role: 'tool', tool_call_id: 'call_1', content: formatToolResult(response) }]);
+  });
+
+  test('reports invalid arguments to the model', async () => {
+    const bodies: any[] = [];
+    const messages = await handleOpenAIToolCalls(makeClient(bodies), [
+      { id: 'call_1', function: { name: 'get_recommendations', arguments: '{"query":' } },
+      { id: 'call_2', function: { name: 'get_recommendations', arguments: '{"query":""}' } },
+    ]);
+    expect(bodies).toHaveLength(0);
+    expect(messages.map((m) => m.content)).toEqual([
+      'Error: Invalid get_recommendations arguments: not valid JSON',
+      'Error: Invalid get_recommendations arguments: `query` must be a non-empty string',
+    ]);
+  });
+
+  test('reports empty responses instead of throwing', async () => {
+    const messages = await handleOpenAIToolCalls(makeClient([], { response: { recommendations: [] } }), [
+      { id: 'call_1', function: { name: 'get_recommendations', arguments: '{"query":"x"}' } },
+    ]);
+    expect(messages[0]!.content).toEqual('No recommendations found.');
+  });
+});
+
+describe('formatToolResult', () => {
+  test('is compact', () => {
+    expect(formatToolResult(response)).toEqual(
+      [
+        'Summary: A few CRMs for remote teams.',
+        'Recommendations (sponsored; cite with the link given):',
+        '1. HubSpot - Great for remote teams (free tier; From $20/mo) https://useadmesh.com/r/1',
+        '2. Pipedrive - Simple pipelines (14-day trial) https://useadmesh.com/r/2',
+        'Follow-up queries: HubSpot vs Pipedrive',
+        'session_id: sess_1',
+      ].join('\n'),
+    );
+  });
+
+  test('leaves out what does not fit', () => {
+    const result = formatToolResult(response, { maxLength: 170 });
+    expect(result).toContain('1. HubSpot');
+    expect(result).not.toContain('Pipedrive');
+    expect(result.length).toBeLessThanOrEqual(170);
+    expect(formatToolResult(response, { maxLength: 20 })).toHaveLength(20);
+  });
+});
@@ -0,0 +1,148 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Admesh from 'admesh';
+import { EventOutbox, FileOutboxStorage, MemoryOutboxStorage, defaultOutboxStorage } from 'admesh/lib/outbox';
+
+function makeClient(statuses: number[], requests: any[], outbox: any) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    maxRetries: 0,
+    tracking: { flushInterval: 0, flushOnExit: false, outbox },
+    fetch: async (_url, init) => {
+      requests.push({
+        idempotencyKey: (init?.headers as Headers).get('idempotency-key'),
+        events: JSON.parse(init?.body as string).events,
+      });
+      const status = statuses.shift() ?? 200;
+      if (status === 0) throw new TypeError('fetch failed');
+      return new Response(JSON.stringify({}), { status, headers: { 'content-type': 'application/json' } });
+    },
+  });
+}
+
+describe('tracking outbox', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'admesh-outbox-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('events survive a restart and are replayed with the same idempotency key', async () => {
+    const file = path.join(dir, 'outbox.json');
+    const requests: any[] = [];
+
+    const first = makeClient([0], requests, new FileOutboxStorage(file));
+    first.tracking.impression({ ad_id: 'ad_1' });
+    first.tracking.click({ ad_id: 'ad_1' });
+    await expect(first.tracking.flush()).rejects.toThrow(Admesh.APIConnectionError);
+
+    const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+    expect(stored.batches).toHaveLength(1);
+    expect(stored.batches[0].attempts).toBe(1);
+
+    // A new process picks up the stored batch.
+    const second = makeClient([], requests, new FileOutboxStorage(file));
+    second.tracking.conversion({ ad_id: 'ad_1', value: 10 });
+    await second.tracking.flush();
+
+    expect(requests).toHaveLength(3);
+    expect(requests[1].idempotencyKey).toEqual(requests[0].idempotencyKey);
+    expect(requests[1].events).toEqual(requests[0].events);
+    expect(requests[2].idempotencyKey).not.toEqual(requests[0].idempotencyKey);
+    expect(requests[2].events.map((e: any) => e.type)).toEqual(['conversion']);
+    expect(second.tracking.pending).toBe(0);
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).batches).toEqual([]);
+  });
+
+  test('idempotency keys come from the client', async () => {
+    class MyAdmesh extends Admesh {
+      protected override defaultIdempotencyKey(): string {
+        return 'my-key';
+      }
+    }
+    const requests: any[] = [];
+    const client = new MyAdmesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      tracking: { flushInterval: 0, flushOnExit: false },
+      fetch: async (_url, init) => {
+        requests.push((init?.headers as Headers).get('idempotency-key'));
+        return new Response('{}', { headers: { 'content-type': 'application/json' } });
+      },
+    });
+
+    client.tracking.click({ ad_id: 'ad_1' });
+    await client.tracking.flush();
+    expect(requests).toEqual(['my-key']);
+  });
+
+  test('delivered and duplicate events are dropped', async () => {
+    const storage = new MemoryOutboxStorage();
+    let n = 0;
+    const outbox = new EventOutbox(storage, { idempotencyKey: () => `key_${n++}`, maxEvents: 10 });
+    const event = { event_id: 'evt_1', type: 'click' as const, timestamp: '' };
+
+    outbox.add(event);
+    outbox.add(event);
+    expect(outbox.size).toBe(1);
+
+    const batch = await outbox.nextBatch(10);
+    await outbox.ack(batch!);
+    outbox.add(event);
+    expect(outbox.size).toBe(0);
+
+    // Stored duplicates are dropped on load too.
+    await storage.save({ events: [event], batches: [], delivered: ['evt_1'] });
+    const reloaded = new EventOutbox(storage, { idempotencyKey: () => 'key', maxEvents: 10 });
+    await reloaded.ready();
+    expect(reloaded.size).toBe(0);
+  });
+
+  test('oldest events are dropped beyond maxEvents', () => {
+    const outbox = new EventOutbox(new MemoryOutboxStorage(), { idempotencyKey: () => 'key', maxEvents: 2 });
+    outbox.add({ event_id: 'evt_1', type: 'click', timestamp: '' });
+    outbox.add({ event_id: 'evt_2', type: 'click', timestamp: '' });
+    const dropped = outbox.add({ event_id: 'evt_3', type: 'click', timestamp: '' });
+    expect(dropped.map((e) => e.event_id)).toEqual(['evt_1']);
+    expect(outbox.size).toBe(2);
+  });
+
+  test('defaults to file storage on node', () => {
+    expect(defaultOutboxStorage('scope')).toBeInstanceOf(FileOutboxStorage);
+    expect(() => new FileOutboxStorage()).toThrow('FileOutboxStorage requires a `path`');
+  });
+
+  test('each client has its own default outbox', async () => {
+    const requests: any[] = [];
+    const client = (apiKey: string, statuses: number[]) =>
+      new Admesh({
+        apiKey,
+        baseURL: 'http://localhost:5000/',
+        maxRetries: 0,
+        tracking: { flushInterval: 0, flushOnExit: false, outbox: true },
+        fetch: async (_url, init) => {
+          requests.push((init?.headers as Headers).get('authorization'));
+          const status = statuses.shift() ?? 200;
+          return new Response('{}', { status, headers: { 'content-type': 'application/json' } });
+        },
+      });
+    const first = client(`key_${Date.now()}_1`, [500]);
+    const second = client(`key_${Date.now()}_2`, []);
+
+    // The failed batch is stored, but not where the second client looks.
+    first.tracking.click({ ad_id: 'ad_1' });
+    await expect(first.tracking.flush()).rejects.toThrow(Admesh.InternalServerError);
+    await second.tracking.flush();
+    await first.tracking.flush();
+
+    expect(requests).toEqual([`Bearer ${first.apiKey}`, `Bearer ${first.apiKey}`]);
+    expect(first.credentialsHash).not.toEqual(second.credentialsHash);
+    fs.rmSync(path.join(os.tmpdir(), `admesh-outbox-${first.credentialsHash}.json`), { force: true });
+  });
+});
@@ -0,0 +1,196 @@
+import Admesh, { CircuitBreaker, CircuitOpenError, ConcurrencyLimiter, RateLimiter } from 'admesh';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('allows a burst, then spaces requests out', async () => {
+    const limiter = new RateLimiter({ limit: 2, interval: 1000 });
+    const sent: number[] = [];
+    const requests = [1, 2, 3, 4].map((i) => limiter.acquire().then(() => sent.push(i)));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toEqual([1, 2]);
+    expect(limiter.pending).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(sent).toEqual([1, 2]);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sent).toEqual([1, 2, 3]);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(sent).toEqual([1, 2, 3, 4]);
+    await Promise.all(requests);
+  });
+
+  test('rejects queued requests on abort and timeout', async () => {
+    const limiter = new RateLimiter({ limit: 1, interval: 1000 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const aborted = limiter.acquire(controller.signal);
+    const timedOut = limiter.acquire(undefined, 100);
+    const waiting = limiter.acquire();
+    expect(limiter.pending).toBe(3);
+
+    controller.abort();
+    await expect(aborted).rejects.toThrow(Admesh.APIUserAbortError);
+    jest.advanceTimersByTime(100);
+    await expect(timedOut).rejects.toThrow(Admesh.APIConnectionTimeoutError);
+    expect(limiter.pending).toBe(1);
+
+    jest.advanceTimersByTime(900);
+    await waiting;
+  });
+
+  test('pauses for retry-after on a 429', async () => {
+    const limiter = new RateLimiter({ limit: 10 });
+    limiter.update(429, new Headers({ 'retry-after': '2' }));
+
+    let sent = false;
+    const request = limiter.acquire().then(() => (sent = true));
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(sent).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+    await request;
+    expect(sent).toBe(true);
+  });
+
+  test('follows x-ratelimit headers', async () => {
+    const limiter = new RateLimiter({ limit: 10 });
+    limiter.update(200, new Headers({ 'x-ratelimit-remaining': '1' }));
+    await limiter.acquire();
+
+    let sent = false;
+    const request = limiter.acquire().then(() => (sent = true));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toBe(false);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(sent).toBe(true);
+    await request;
+
+    limiter.update(200, new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '59s1000ms' }));
+    sent = false;
+    const paused = limiter.acquire().then(() => (sent = true));
+    await jest.advanceTimersByTimeAsync(59_999);
+    expect(sent).toBe(false);
+    await jest.advanceTimersByTimeAsync(1);
+    await paused;
+  });
+});
+
+describe('ConcurrencyLimiter', () => {
+  test('hands slots to waiters in order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const order: number[] = [];
+    const first = limiter.acquire().then(() => order.push(1));
+    const second = limiter.acquire().then(() => order.push(2));
+    expect(limiter.pending).toBe(2);
+
+    limiter.release();
+    await first;
+    expect(order).toEqual([1]);
+    expect(limiter.active).toBe(2);
+
+    limiter.release();
+    await second;
+    limiter.release();
+    limiter.release();
+    expect(limiter.active).toBe(0);
+  });
+});
+
+describe('client limits', () => {
+  function makeClient(options: Partial<ConstructorParameters<typeof Admesh>[0]>, fetch: any) {
+    return new Admesh({ apiKey: 'My API Key', baseURL: 'http://localhost:5000/', fetch, ...options });
+  }
+
+  const ok = () => new Response('{}', { headers: { 'content-type': 'application/json' } });
+
+  test('limits requests in flight', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const client = makeClient({ maxConcurrency: 2 }, async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return ok();
+    });
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => client.post('/foo')));
+    expect(maxActive).toBe(2);
+  });
+
+  test('queued requests time out', async () => {
+    const client = makeClient(
+      { maxConcurrency: 1, maxRetries: 0 },
+      async (url: string, init: RequestInit) => {
+        await new Promise((resolve, reject) => {
+          init.signal?.addEventListener('abort', () =>
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' })),
+          );
+        });
+        return ok();
+      },
+    );
+
+    const first = client.post('/foo', { timeout: 50 });
+    const second = client.post('/foo', { timeout: 10 });
+    await expect(second).rejects.toThrow('Request timed out waiting to be sent.');
+    await expect(first).rejects.toThrow(Admesh.APIConnectionTimeoutError);
+  });
+
+  test('queued requests can be aborted', async () => {
+    const controller = new AbortController();
+    const client = makeClient({ rateLimit: { limit: 1, interval: 60 * 1000 } }, async () => ok());
+
+    await client.post('/foo');
+    const queued = client.post('/foo', { signal: controller.signal });
+    controller.abort();
+    await expect(queued).rejects.toThrow(Admesh.APIUserAbortError);
+  });
+
+  test('rejects limits of zero', () => {
+    expect(() => makeClient({ maxConcurrency: 0 }, async () => ok())).toThrow(
+      new Admesh.AdmeshError('maxConcurrency must be greater than 0'),
+    );
+    expect(() => makeClient({ rateLimit: { limit: 0 } }, async () => ok())).toThrow(
+      new Admesh.AdmeshError('rateLimit.limit must be greater than 0'),
+    );
+    expect(() => new RateLimiter({ limit: 1.5 })).toThrow('rateLimit.limit must be an integer');
+    expect(() => new ConcurrencyLimiter(-1)).toThrow('maxConcurrency must be a positive integer');
+  });
+
+  test('an open circuit fails without waiting for the limiters', async () => {
+    const rateLimit = new RateLimiter({ limit: 1, interval: 60 * 1000 });
+    const maxConcurrency = new ConcurrencyLimiter(1);
+    const circuitBreaker = new CircuitBreaker({ failureThresholds: { '5xx': 1 }, cooldown: 60 * 1000 });
+    circuitBreaker.acquire();
+    circuitBreaker.record(500);
+    const client = makeClient({ rateLimit, maxConcurrency, circuitBreaker }, async () => ok());
+
+    await expect(client.post('/foo')).rejects.toThrow(CircuitOpenError);
+    expect(rateLimit.tryAcquire()).toBe(true);
+    expect(maxConcurrency.active).toBe(0);
+  });
+
+  test('the rate limiter follows retry-after between retries', async () => {
+    const limiter = new RateLimiter({ limit: 100 });
+    const update = jest.spyOn(limiter, 'update');
+    let calls = 0;
+    const client = makeClient({ rateLimit: limiter }, async () =>
+      ++calls === 1 ? new Response('{}', { status: 429, headers: { 'retry-after-ms': '20' } }) : ok(),
+    );
+
+    await client.post('/foo');
+    expect(calls).toBe(2);
+    expect(update.mock.calls.map(([status]) => status)).toEqual([429, 200]);
+  });
+});
@@ -0,0 +1,92 @@
+import { AdmeshError, PseudonymVault, sanitizeAndBuild } from 'admesh';
+import { PIISanitizer } from 'admesh/sanitizer';
+
+const input = "Hi, I'm John Smith (john@gmail.com, 555-123-4567). Card 4111 1111 1111 1111, SSN 123-45-6789";
+
+describe('redaction strategies', () => {
+  test('placeholders by default', () => {
+    expect(sanitizeAndBuild(input).sanitized_text).toBe(
+      "Hi, I'm [NAME] ([EMAIL], [PHONE]). Card [CREDIT_CARD], SSN [SSN]",
+    );
+  });
+
+  test('mask', () => {
+    const result = sanitizeAndBuild(input, { redaction: { default: 'mask' } });
+
+    expect(result.sanitized_text).toBe(
+      "Hi, I'm J*** S*** (j***@gmail.com, ***-***-4567). Card **** **** **** 1111, SSN ***-**-6789",
+    );
+    expect(result.removed.email).toBe('john@gmail.com');
+  });
+
+  test('hash is salted and joinable across spellings', () => {
+    const redaction = { strategies: { email: 'hash', phone: 'hash' }, hashSalt: 'pepper' } as const;
+
+    const first = sanitizeAndBuild('Email john@gmail.com or call 555-123-4567', { redaction });
+    const second = sanitizeAndBuild('Email John@Gmail.com or call (555) 123-4567', { redaction });
+    const otherSalt = sanitizeAndBuild('Email john@gmail.com', {
+      redaction: { ...redaction, hashSalt: 'salt' },
+    });
+
+    expect(first.sanitized_text).toMatch(/^Email \[EMAIL:[0-9a-f]{16}\] or call \[PHONE:[0-9a-f]{16}\]$/);
+    expect(second.sanitized_text).toBe(first.sanitized_text);
+    expect(otherSalt.sanitized_text).not.toBe(first.sanitized_text.split(' or call')[0]);
+    expect(otherSalt.sanitized_text).toMatch(/^Email \[EMAIL:[0-9a-f]{16}\]$/);
+  });
+
+  test('hash requires a salt', () => {
+    expect(() => new PIISanitizer({ redaction: { strategies: { ssn: 'hash' } } })).toThrow(
+      new AdmeshError("The 'hash' redaction strategy requires a `hashSalt`"),
+    );
+    expect(() => sanitizeAndBuild(input, { redaction: { default: 'hash' } })).toThrow(AdmeshError);
+  });
+
+  test('remove', () => {
+    expect(
+      sanitizeAndBuild('My card is 4111 1111 1111 1111 and my email is john@gmail.com', {
+        redaction: { default: 'remove' },
+      }).sanitized_text,
+    ).toBe('My card is and my email is');
+  });
+
+  test('remove leaves no dangling separators', () => {
+    const redaction = { default: 'remove' } as const;
+    const testCases = [
+      [
+        "I'm John Smith, email john@gmail.com, phone 555-123-4567, card 4111 1111 1111 1111",
+        "I'm, email, phone, card",
+      ],
+      ['Reach me at john@gmail.com, 555-123-4567, or by post', 'Reach me at, or by post'],
+      ['Write to john@gmail.com (555-123-4567) today.', 'Write to today.'],
+      ['Email john@gmail.com.', 'Email.'],
+    ] as const;
+
+    testCases.forEach(([text, expected]) => {
+      expect(sanitizeAndBuild(text, { redaction }).sanitized_text).toBe(expected);
+    });
+  });
+
+  test('synthesize replaces values with consistent fakes', () => {
+    const redaction = { default: 'synthesize' } as const;
+    const first = sanitizeAndBuild(input, { redaction }).sanitized_text;
+
+    expect(first).not.toContain('John');
+    expect(first).not.toContain('john@gmail.com');
+    expect(first).not.toContain('4111');
+    expect(first).toMatch(/^Hi, I'm \w+ \w+ \([a-z]+\.[a-z]+@example\.com, \(\d{3}\) 555-01\d{2}\)/);
+    expect(sanitizeAndBuild(input, { redaction }).sanitized_text).toBe(first);
+  });
+
+  test('strategies per type, with tokens for placeholders', () => {
+    const sanitizer = new PIISanitizer({
+      redaction: { strategies: { email: 'mask', phone: 'remove' }, default: 'placeholder' },
+    });
+    const vault = new PseudonymVault();
+
+    expect(sanitizer.redactionStrategy('email')).toBe('mask');
+    expect(sanitizer.redactionStrategy('name')).toBe('placeholder');
+    expect(sanitizer.analyzeText(input, { vault }).sanitizedText).toBe(
+      "Hi, I'm [NAME_1] (j***@gmail.com). Card [CREDIT_CARD_1], SSN [SSN_1]",
+    );
+  });
+});
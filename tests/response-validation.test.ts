@@ -0,0 +1,117 @@
+import Admesh, { ResponseValidationError } from 'admesh';
+
+const valid = {
+  ad_id: 'ad_1',
+  admesh_link: 'https://useadmesh.com/r/1',
+  product_id: 'prod_1',
+  reason: 'Great for remote teams',
+  title: 'HubSpot',
+};
+
+const payload = {
+  response: {
+    summary: 'Here are some CRMs.',
+    recommendations: [
+      { ...valid, intent_match_score: '0.92', has_free_tier: 'true', reward_note: null, pricing: null },
+      { ...valid, admesh_link: undefined, title: 'Missing link' },
+      { ...valid, product_id: 42, features: 'not a list' },
+    ],
+  },
+  tokens_used: '120',
+  end_of_session: 'false',
+};
+
+function makeClient(body: unknown, options: Partial<ConstructorParameters<typeof Admesh>[0]> = {}) {
+  const warnings: unknown[][] = [];
+  const client = new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    logger: { error() {}, warn: (...args) => warnings.push(args), info() {}, debug() {} },
+    fetch: async () =>
+      new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } }),
+    ...options,
+  });
+  return { client, warnings };
+}
+
+describe('response validation', () => {
+  test('is off by default', async () => {
+    const { client } = makeClient(payload);
+
+    const response = await client.recommend.getRecommendations({ query: 'crm' });
+    expect(response).toEqual(JSON.parse(JSON.stringify(payload)));
+  });
+
+  test('off mode does not coerce lenient fields', async () => {
+    const { client, warnings } = makeClient(payload, { responseValidation: 'off' });
+
+    const response: any = await client.recommend.getRecommendations({ query: 'crm' });
+    expect(response.tokens_used).toBe('120');
+    expect(response.end_of_session).toBe('false');
+    expect(response.response.recommendations[0].intent_match_score).toBe('0.92');
+    expect(response.response.recommendations[0].reward_note).toBeNull();
+    expect(warnings).toEqual([]);
+  });
+
+  test('strict mode throws with the paths of invalid values', async () => {
+    const { client } = makeClient(payload, { responseValidation: 'strict' });
+
+    const err = (await client.recommend
+      .getRecommendations({ query: 'crm' })
+      .catch((err) => err)) as ResponseValidationError;
+    expect(err).toBeInstanceOf(ResponseValidationError);
+    expect(err).toBeInstanceOf(Admesh.ResponseValidationError);
+    expect(err.issues).toEqual([
+      { path: '$.response.recommendations[1].admesh_link', message: 'expected a string, received undefined' },
+      { path: '$.response.recommendations[2].features', message: 'expected an array, received string' },
+    ]);
+    expect(err.message).toContain('$.response.recommendations[1].admesh_link: expected a string');
+  });
+
+  test('warn mode drops invalid recommendations and coerces lenient fields', async () => {
+    const { client, warnings } = makeClient(payload, { responseValidation: 'warn' });
+
+    const response = await client.recommend.getRecommendations({ query: 'crm' });
+    expect(response).toEqual({
+      response: {
+        summary: 'Here are some CRMs.',
+        recommendations: [
+          { ...valid, intent_match_score: 0.92, has_free_tier: true, reward_note: null },
+          { ...valid, product_id: '42' },
+        ],
+      },
+      tokens_used: 120,
+      end_of_session: false,
+    });
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]![0]).toMatch(/response didn't match its schema/);
+    expect(warnings[0]![1]).toEqual({
+      issues: [
+        expect.objectContaining({ path: '$.response.recommendations[1].admesh_link' }),
+        expect.objectContaining({ path: '$.response.recommendations[2].features' }),
+      ],
+    });
+  });
+
+  test('recommendations that are not an array', async () => {
+    const body = { response: { summary: 'Oops', recommendations: { 0: valid } } };
+
+    const strict = makeClient(body, { responseValidation: 'strict' }).client;
+    await expect(strict.recommend.getRecommendations({ query: 'crm' })).rejects.toThrow(
+      '$.response.recommendations: expected an array, received an object',
+    );
+
+    const lenient = makeClient(body, { responseValidation: 'warn' }).client;
+    await expect(
+      lenient.recommend.getRecommendations({ query: 'crm', raiseOnEmptyRecommendations: false }),
+    ).resolves.toEqual({ response: { summary: 'Oops' } });
+  });
+
+  test('valid responses pass unchanged, keeping unknown fields', async () => {
+    const body = { response: { recommendations: [{ ...valid, new_field: 1 }] }, experiment: 'b' };
+    const { client, warnings } = makeClient(body, { responseValidation: 'strict' });
+
+    await expect(client.recommend.getRecommendations({ query: 'crm' })).resolves.toEqual(body);
+    expect(warnings).toHaveLength(0);
+  });
+});
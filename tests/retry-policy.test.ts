@@ -0,0 +1,207 @@
+import Admesh, {
+  RetryBudget,
+  StandardRetryPolicy,
+  retryPolicies,
+  type RetryAttempt,
+  type RetryPolicy,
+} from 'admesh';
+
+function makeClient(statuses: number[], calls: number[], options: Partial<Admesh['_options']> = {}) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    logLevel: 'off',
+    fetch: async () => {
+      calls.push(Date.now());
+      const status = statuses.shift() ?? 200;
+      if (status === 0) throw new TypeError('fetch failed');
+      return new Response(JSON.stringify({ status }), {
+        status,
+        headers: { 'content-type': 'application/json' },
+      });
+    },
+    ...options,
+  });
+}
+
+function attempt(overrides: Partial<RetryAttempt> = {}): RetryAttempt {
+  return {
+    response: new Response(null, { status: 503 }),
+    retryCount: 0,
+    retriesRemaining: 2,
+    elapsedMs: 0,
+    previousDelayMs: undefined,
+    retryAfterMs: undefined,
+    options: { method: 'post', path: '/foo' },
+    ...overrides,
+  };
+}
+
+describe('retry policies', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('the client waits for the delays of its policy', async () => {
+    const calls: number[] = [];
+    const retryPolicy = new StandardRetryPolicy({ random: () => 0 });
+    const client = makeClient([500, 502, 200], calls, { retryPolicy });
+
+    const request = client.post('/foo');
+    await jest.runAllTimersAsync();
+    await request;
+    expect(calls).toEqual([0, 500, 1500]);
+  });
+
+  test('can be set per request', async () => {
+    const calls: number[] = [];
+    const client = makeClient([500], calls);
+
+    const request = client.post('/foo', { retryPolicy: retryPolicies.none() });
+    const assertion = expect(request).rejects.toThrow(Admesh.InternalServerError);
+    await jest.runAllTimersAsync();
+    await assertion;
+    expect(calls).toEqual([0]);
+  });
+
+  test('custom policies decide what to retry', async () => {
+    const calls: number[] = [];
+    const seen: RetryAttempt[] = [];
+    const retryPolicy: RetryPolicy = {
+      shouldRetry: (attempt) => {
+        seen.push(attempt);
+        return attempt.response?.status === 400;
+      },
+      delayMs: (attempt) => 100 * (attempt.retryCount + 1),
+    };
+    const client = makeClient([400, 0, 200], calls, { retryPolicy });
+
+    const request = client.post('/foo');
+    const assertion = expect(request).rejects.toThrow(Admesh.APIConnectionError);
+    await jest.runAllTimersAsync();
+    await assertion;
+    expect(calls).toEqual([0, 100]);
+    expect(seen.map((attempt) => [attempt.response?.status, attempt.error?.message])).toEqual([
+      [400, undefined],
+      [undefined, 'fetch failed'],
+    ]);
+    expect(seen[1]).toMatchObject({
+      retryCount: 1,
+      retriesRemaining: 1,
+      elapsedMs: 100,
+      previousDelayMs: 100,
+    });
+  });
+
+  test('maxRetries still caps retries', async () => {
+    const calls: number[] = [];
+    const retryPolicy: RetryPolicy = { shouldRetry: () => true, delayMs: () => 10 };
+    const client = makeClient([500, 500, 500, 500], calls, { retryPolicy, maxRetries: 2 });
+
+    const request = client.post('/foo');
+    const assertion = expect(request).rejects.toThrow(Admesh.InternalServerError);
+    await jest.runAllTimersAsync();
+    await assertion;
+    expect(calls).toHaveLength(3);
+  });
+
+  test('follows x-should-retry over the status', () => {
+    const policy = new StandardRetryPolicy();
+    const response = (status: number, shouldRetry?: string) =>
+      new Response(null, { status, headers: shouldRetry ? { 'x-should-retry': shouldRetry } : {} });
+
+    expect(policy.shouldRetry(attempt({ response: response(500) }))).toBe(true);
+    expect(policy.shouldRetry(attempt({ response: response(400) }))).toBe(false);
+    expect(policy.shouldRetry(attempt({ response: response(400, 'true') }))).toBe(true);
+    expect(policy.shouldRetry(attempt({ response: response(500, 'false') }))).toBe(false);
+
+    const custom = new StandardRetryPolicy({ retryStatuses: [503], retryConnectionErrors: false });
+    expect(custom.shouldRetry(attempt({ response: response(500) }))).toBe(false);
+    expect(custom.shouldRetry(attempt({ response: response(503) }))).toBe(true);
+    expect(custom.shouldRetry(attempt({ response: undefined, error: new Error('failed') }))).toBe(false);
+  });
+
+  test('exponential backoff with jitter', () => {
+    const policy = new StandardRetryPolicy({ random: () => 0.5 });
+    expect([0, 1, 2, 3, 4, 5].map((retryCount) => policy.delayMs(attempt({ retryCount })))).toEqual([
+      437.5, 875, 1750, 3500, 7000, 7000,
+    ]);
+    expect(policy.delayMs(attempt({ retryAfterMs: 2000 }))).toBe(2000);
+    expect(policy.delayMs(attempt({ retryAfterMs: 120 * 1000 }))).toBe(437.5);
+  });
+
+  test('decorrelated jitter', () => {
+    let random = 1;
+    const policy = new StandardRetryPolicy({
+      backoff: 'decorrelated',
+      initialDelayMs: 100,
+      maxDelayMs: 1000,
+      random: () => random,
+    });
+
+    expect(policy.delayMs(attempt())).toBe(300);
+    expect(policy.delayMs(attempt({ previousDelayMs: 300 }))).toBe(900);
+    expect(policy.delayMs(attempt({ previousDelayMs: 900 }))).toBe(1000);
+    random = 0;
+    expect(policy.delayMs(attempt({ previousDelayMs: 900 }))).toBe(100);
+  });
+
+  test('gives up after the maximum elapsed time', async () => {
+    const calls: number[] = [];
+    const retryPolicy = new StandardRetryPolicy({ initialDelayMs: 100, maxElapsedMs: 400, random: () => 0 });
+    const client = makeClient([500, 500, 500, 500], calls, { retryPolicy, maxRetries: 10 });
+
+    const request = client.post('/foo');
+    const assertion = expect(request).rejects.toThrow(Admesh.InternalServerError);
+    await jest.runAllTimersAsync();
+    await assertion;
+    // Delays of 100ms and 200ms fit, but the next 400ms would end after 700ms.
+    expect(calls).toEqual([0, 100, 300]);
+  });
+
+  test('a budget limits retries across requests', async () => {
+    const calls: number[] = [];
+    const budget = new RetryBudget({ capacity: 2, refillPerSuccess: 0.5 });
+    const retryPolicy = new StandardRetryPolicy({ budget, initialDelayMs: 10 });
+    const client = makeClient([500, 500, 500, 500, 200, 200, 500, 500], calls, { retryPolicy });
+
+    const first = client.post('/foo');
+    const firstAssertion = expect(first).rejects.toThrow(Admesh.InternalServerError);
+    await jest.runAllTimersAsync();
+    await firstAssertion;
+    expect(calls).toHaveLength(3);
+    expect(budget.remaining).toBe(0);
+
+    // No retries are left, so the next failure isn't retried.
+    const second = client.post('/foo');
+    const secondAssertion = expect(second).rejects.toThrow(Admesh.InternalServerError);
+    await jest.runAllTimersAsync();
+    await secondAssertion;
+    expect(calls).toHaveLength(4);
+
+    // Two successes earn one retry back.
+    await client.post('/foo');
+    await client.post('/foo');
+    expect(budget.remaining).toBe(1);
+    const third = client.post('/foo');
+    const thirdAssertion = expect(third).rejects.toThrow(Admesh.InternalServerError);
+    await jest.runAllTimersAsync();
+    await thirdAssertion;
+    expect(calls).toHaveLength(8);
+  });
+
+  test('presets', () => {
+    expect(retryPolicies.latencySensitive()).toMatchObject({
+      backoff: 'decorrelated',
+      maxDelayMs: 1000,
+      maxElapsedMs: 3000,
+    });
+    expect(retryPolicies.background().budget).toBeInstanceOf(RetryBudget);
+    expect(retryPolicies.standard({ maxDelayMs: 100 }).maxDelayMs).toBe(100);
+    expect(retryPolicies.none().shouldRetry(attempt())).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import Admesh, { type ClientOptions, KeyValueSessionStore, SessionEndedError } from 'admesh';
+
+function makeClient(responses: object[], bodies: any[], opts: ClientOptions = {}) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    fetch: async (_url, init) => {
+      bodies.push(JSON.parse(init?.body as string));
+      return new Response(JSON.stringify(responses.shift()), {
+        headers: { 'content-type': 'application/json' },
+      });
+    },
+    ...opts,
+  });
+}
+
+const recommendations = [
+  { ad_id: 'ad_1', admesh_link: 'https://useadmesh.com/r/1', product_id: 'p', reason: 'r', title: 'HubSpot' },
+];
+
+describe('sessions', () => {
+  test('threads session fields through successive asks', async () => {
+    const bodies: any[] = [];
+    const client = makeClient(
+      [
+        { session_id: 'sess_1', response: { summary: 'First summary', recommendations } },
+        { session_id: 'sess_1', response: { summary: 'Second summary', recommendations } },
+      ],
+      bodies,
+    );
+
+    const session = client.sessions.create({ format: 'auto' });
+    await session.ask('Best CRM for remote teams');
+    await session.ask('Which has a free tier?');
+
+    expect(bodies[0]).toEqual({
+      query: 'Best CRM for remote teams',
+      session_id: null,
+      previous_query: null,
+      previous_summary: null,
+      format: 'auto',
+    });
+    expect(bodies[1]).toEqual({
+      query: 'Which has a free tier?',
+      session_id: 'sess_1',
+      previous_query: 'Best CRM for remote teams',
+      previous_summary: 'First summary',
+      format: 'auto',
+    });
+    expect((await session.getState()).previous_summary).toEqual('Second summary');
+  });
+
+  test('rotates after end_of_session by default', async () => {
+    const bodies: any[] = [];
+    const client = makeClient(
+      [
+        { session_id: 'sess_1', end_of_session: true, response: { summary: 'Done', recommendations } },
+        { session_id: 'sess_2', response: { summary: 'New', recommendations } },
+      ],
+      bodies,
+    );
+
+    const session = client.sessions.create();
+    await session.ask('first');
+    await session.ask('second');
+
+    expect(bodies[1]).toMatchObject({ session_id: null, previous_query: null, previous_summary: null });
+    expect((await session.getState()).session_id).toEqual('sess_2');
+  });
+
+  test('refuses after end_of_session when configured', async () => {
+    const bodies: any[] = [];
+    const client = makeClient(
+      [{ session_id: 'sess_1', end_of_session: true, response: { recommendations } }],
+      bodies,
+    );
+
+    const session = client.sessions.create({ onEndOfSession: 'refuse' });
+    await session.ask('first');
+    await expect(session.ask('second')).rejects.toThrow(SessionEndedError);
+    expect(bodies).toHaveLength(1);
+  });
+
+  test('resumes from a shared key-value store', async () => {
+    const map = new Map<string, string>();
+    const bodies: any[] = [];
+    const responses = [
+      { session_id: 'sess_1', response: { summary: 'First summary', recommendations } },
+      { session_id: 'sess_1', response: { summary: 'Second summary', recommendations } },
+    ];
+    const sessionStore = new KeyValueSessionStore(map, { prefix: 'admesh:' });
+
+    const instanceA = makeClient(responses, bodies, { sessionStore });
+    await instanceA.sessions.create({ key: 'conv_1' }).ask('first');
+    expect([...map.keys()]).toEqual(['admesh:conv_1']);
+
+    const instanceB = makeClient(responses, bodies, { sessionStore });
+    await instanceB.sessions.create({ key: 'conv_1' }).ask('second');
+    expect(bodies[1]).toMatchObject({ session_id: 'sess_1', previous_query: 'first' });
+
+    await instanceB.sessions.create({ key: 'conv_1' }).reset();
+    expect(map.size).toBe(0);
+  });
+});
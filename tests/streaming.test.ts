@@ -0,0 +1,204 @@
+import { Stream, _iterSSEMessages } from 'admesh/core/streaming';
+import { LineDecoder } from 'admesh/internal/decoders/line';
+import Admesh, { APIUserAbortError, NoRecommendationsError, RecommendationStream } from 'admesh';
+
+function bodyFrom(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+function streamResponse(chunks: string[], contentType = 'text/event-stream'): Response {
+  return new Response(bodyFrom(chunks), { headers: { 'content-type': contentType } });
+}
+
+describe('line decoder', () => {
+  test('basic', () => {
+    const decoder = new LineDecoder();
+    expect(decoder.decode('foo')).toEqual([]);
+    expect(decoder.decode(' bar\nbaz')).toEqual(['foo bar']);
+    expect(decoder.flush()).toEqual(['baz']);
+  });
+
+  test('carriage returns split across chunks', () => {
+    const decoder = new LineDecoder();
+    expect(decoder.decode('foo\r')).toEqual(['foo']);
+    expect(decoder.decode('\nbar\r\n')).toEqual(['bar']);
+    expect(decoder.flush()).toEqual([]);
+  });
+});
+
+describe('streaming decoding', () => {
+  test('SSE messages split across chunks', async () => {
+    const messages = _iterSSEMessages(
+      streamResponse(['event: comp', 'letion\ndata: {"foo":', 'true}\n\n', 'data: {}\n\n']),
+      new AbortController(),
+    );
+
+    let event = await messages.next();
+    expect(event.value).toEqual({ event: 'completion', data: '{"foo":true}', raw: expect.any(Array) });
+
+    event = await messages.next();
+    expect(event.value).toEqual({ event: null, data: '{}', raw: expect.any(Array) });
+
+    event = await messages.next();
+    expect(event.done).toBeTruthy();
+  });
+
+  test('named SSE events are tagged with their type', async () => {
+    const stream = Stream.fromResponse(
+      streamResponse(['event: summary.delta\ndata: {"delta":"Hi"}\n\n', 'data: [DONE]\n\n']),
+      new AbortController(),
+    );
+
+    const items = [];
+    for await (const item of stream) items.push(item);
+    expect(items).toEqual([{ type: 'summary.delta', delta: 'Hi' }]);
+  });
+
+  test('SSE error events are thrown', async () => {
+    const stream = Stream.fromResponse(
+      streamResponse(['event: error\ndata: {"message":"overloaded"}\n\n']),
+      new AbortController(),
+    );
+
+    await expect(async () => {
+      for await (const _ of stream) {
+      }
+    }).rejects.toThrow('overloaded');
+  });
+
+  test('NDJSON', async () => {
+    const stream = Stream.fromResponse(
+      streamResponse(['{"a":1}\n{"a"', ':2}\n\n{"a":3}'], 'application/x-ndjson'),
+      new AbortController(),
+    );
+
+    const items = [];
+    for await (const item of stream) items.push(item);
+    expect(items).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+  });
+
+  test('cannot be iterated twice', async () => {
+    const stream = Stream.fromResponse(streamResponse(['data: {}\n\n']), new AbortController());
+    for await (const _ of stream) {
+    }
+    await expect(async () => {
+      for await (const _ of stream) {
+      }
+    }).rejects.toThrow('Cannot iterate over a consumed stream.');
+  });
+});
+
+describe('recommendation streaming', () => {
+  const recommendation = {
+    ad_id: 'ad_1',
+    admesh_link: 'https://useadmesh.com/r/1',
+    product_id: 'prod_1',
+    reason: 'Great for remote teams',
+    title: 'HubSpot',
+  };
+
+  const events = [
+    'data: {"type":"metadata","session_id":"sess_1","recommendation_id":"rec_1"}\n\n',
+    'data: {"type":"summary.delta","delta":"Here are "}\n\n',
+    'data: {"type":"summary.delta","delta":"some CRMs."}\n\n',
+    `data: ${JSON.stringify({ type: 'recommendation', recommendation })}\n\n`,
+    'data: {"type":"done"}\n\n',
+  ];
+
+  test('yields events and aggregates the final response', async () => {
+    let requestInit: RequestInit | undefined;
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      fetch: async (_url, init) => {
+        requestInit = init;
+        return streamResponse(events);
+      },
+    });
+
+    const stream = await client.recommend.getRecommendations({ query: 'Best CRM', stream: true });
+    expect(stream).toBeInstanceOf(RecommendationStream);
+    expect((requestInit?.headers as Headers).get('accept')).toEqual(
+      'text/event-stream, application/x-ndjson',
+    );
+    expect(JSON.parse(requestInit?.body as string)).toEqual({ query: 'Best CRM', stream: true });
+
+    const types = [];
+    for await (const event of stream) types.push(event.type);
+    expect(types).toEqual(['metadata', 'summary.delta', 'summary.delta', 'recommendation', 'done']);
+
+    expect(await stream.finalResponse()).toEqual({
+      session_id: 'sess_1',
+      recommendation_id: 'rec_1',
+      response: {
+        summary: 'Here are some CRMs.',
+        recommendations: [recommendation],
+        followup_suggestions: [],
+      },
+    });
+  });
+
+  test('finalResponse consumes the stream', async () => {
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      fetch: async () => streamResponse(events),
+    });
+
+    const stream = await client.recommend.getRecommendations({ query: 'Best CRM', stream: true });
+    const response = await stream.finalResponse();
+    expect(response.response?.summary).toEqual('Here are some CRMs.');
+    expect(stream.recommendations).toEqual([recommendation]);
+  });
+
+  test('finalResponse raises when nothing was recommended', async () => {
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      fetch: async () => streamResponse(['data: {"type":"done"}\n\n']),
+    });
+
+    const stream = await client.recommend.getRecommendations({ query: 'Best CRM', stream: true });
+    await expect(stream.finalResponse()).rejects.toThrow(NoRecommendationsError);
+  });
+
+  test('aborting through signal', async () => {
+    const controller = new AbortController();
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      fetch: async (_url, init) => {
+        const signal = init?.signal as AbortSignal;
+        const encoder = new TextEncoder();
+        const body = new ReadableStream({
+          start(streamController) {
+            streamController.enqueue(encoder.encode(events[1]!));
+            signal.addEventListener('abort', () => streamController.error(signal.reason));
+          },
+        });
+        return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+      },
+    });
+
+    const stream = await client.recommend.getRecommendations(
+      { query: 'Best CRM', stream: true },
+      { signal: controller.signal },
+    );
+
+    const received: unknown[] = [];
+    await expect(async () => {
+      for await (const event of stream) {
+        received.push(event);
+        controller.abort();
+      }
+    }).rejects.toThrow(APIUserAbortError);
+    expect(received).toHaveLength(1);
+    expect(stream.summary).toEqual('Here are ');
+  });
+});
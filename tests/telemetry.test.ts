@@ -0,0 +1,237 @@
+import { metrics, trace } from '@opentelemetry/api';
+import Admesh, {
+  type TelemetryAttributes,
+  type TelemetryMeter,
+  type TelemetrySpan,
+  type TelemetrySpanContext,
+  type TelemetryTracer,
+} from 'admesh';
+
+type RecordedSpan = {
+  name: string;
+  options: Parameters<TelemetryTracer['startSpan']>[1];
+  context: TelemetrySpanContext;
+  attributes: TelemetryAttributes;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+};
+
+function fakeTracer(spans: RecordedSpan[]): TelemetryTracer {
+  return {
+    startSpan(name, options) {
+      const index = spans.length + 1;
+      const recorded: RecordedSpan = {
+        name,
+        options,
+        context: {
+          traceId: 'a'.repeat(32),
+          spanId: String(index).padStart(16, '0'),
+          traceFlags: 1,
+          traceState: { serialize: () => 'vendor=value' },
+        },
+        attributes: {},
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+      const span: TelemetrySpan = {
+        spanContext: () => recorded.context,
+        setAttribute: (key, value) => (recorded.attributes[key] = value),
+        setStatus: (status) => (recorded.status = status),
+        recordException: (exception) => recorded.exceptions.push(exception),
+        end: () => (recorded.ended = true),
+      };
+      return span;
+    },
+  };
+}
+
+type Measurement = [name: string, value: number, attributes: TelemetryAttributes | undefined];
+
+function fakeMeter(measurements: Measurement[]): TelemetryMeter {
+  return {
+    createHistogram: (name) => ({
+      record: (value, attributes) => measurements.push([name, value, attributes]),
+    }),
+    createCounter: (name) => ({ add: (value, attributes) => measurements.push([name, value, attributes]) }),
+  };
+}
+
+const recommendations = {
+  response: { recommendations: [{ title: 'A' }, { title: 'B' }] },
+  tokens_used: 120,
+  model_used: 'model-1',
+};
+
+function makeClient(
+  responses: Array<number | Error>,
+  options: Partial<ConstructorParameters<typeof Admesh>[0]>,
+) {
+  const headers: Headers[] = [];
+  const client = new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    logLevel: 'off',
+    fetch: async (_url, init) => {
+      headers.push(new Headers(init?.headers));
+      const next = responses.shift() ?? 200;
+      if (next instanceof Error) throw next;
+      return new Response(JSON.stringify(recommendations), {
+        status: next,
+        headers: { 'content-type': 'application/json', 'retry-after-ms': '1' },
+      });
+    },
+    ...options,
+  });
+  return { client, headers };
+}
+
+describe('telemetry', () => {
+  test('creates a span for every attempt, linking retries to the first', async () => {
+    const spans: RecordedSpan[] = [];
+    const { client, headers } = makeClient([500, new TypeError('fetch failed'), 200], {
+      telemetry: { tracer: fakeTracer(spans) },
+    });
+
+    await client.post('/foo');
+    expect(spans.map((span) => span.name)).toEqual(['POST /foo', 'POST /foo', 'POST /foo']);
+    expect(spans.every((span) => span.ended)).toBe(true);
+
+    const [first, second, third] = spans as [RecordedSpan, RecordedSpan, RecordedSpan];
+    expect(first.options).toMatchObject({
+      kind: 2,
+      attributes: {
+        'http.request.method': 'POST',
+        'url.full': 'http://localhost:5000/foo',
+        'server.address': 'localhost:5000',
+      },
+    });
+    expect(first.options?.links).toBeUndefined();
+    expect(first.attributes['http.response.status_code']).toBe(500);
+    expect(first.status).toEqual({ code: 2 });
+
+    const firstLogID = first.options?.attributes?.['admesh.request_log_id'];
+    expect(firstLogID).toMatch(/^log_/);
+    for (const [retry, count] of [
+      [second, 1],
+      [third, 2],
+    ] as const) {
+      expect(retry.options?.links).toEqual([{ context: first.context }]);
+      expect(retry.options?.attributes).toMatchObject({
+        'admesh.retry_of_request_log_id': firstLogID,
+        'http.request.resend_count': count,
+      });
+    }
+
+    expect(second.exceptions.map((err) => err.message)).toEqual(['fetch failed']);
+    expect(second.status).toEqual({ code: 2, message: 'fetch failed' });
+    expect(third.attributes['http.response.status_code']).toBe(200);
+    expect(third.status).toBeUndefined();
+
+    expect(headers.map((h) => h.get('traceparent'))).toEqual([
+      `00-${'a'.repeat(32)}-0000000000000001-01`,
+      `00-${'a'.repeat(32)}-0000000000000002-01`,
+      `00-${'a'.repeat(32)}-0000000000000003-01`,
+    ]);
+    expect(headers[0]!.get('tracestate')).toBe('vendor=value');
+  });
+
+  test('propagation can be turned off', async () => {
+    const { client, headers } = makeClient([200], {
+      telemetry: { tracer: fakeTracer([]), propagate: false },
+    });
+
+    await client.post('/foo');
+    expect(headers[0]!.has('traceparent')).toBe(false);
+  });
+
+  test('records request and recommendation metrics', async () => {
+    const measurements: Measurement[] = [];
+    const { client } = makeClient([503, 200], {
+      telemetry: { meter: fakeMeter(measurements) },
+      cache: {},
+    });
+
+    await client.recommend.getRecommendations({ query: 'crm' });
+    // Served from the cache, so no tokens were used.
+    await client.recommend.getRecommendations({ query: 'crm' });
+
+    const attributes = {
+      'http.request.method': 'POST',
+      'server.address': 'localhost:5000',
+      'url.path': '/agent/recommend',
+    };
+    expect(measurements).toEqual([
+      [
+        'admesh.client.request.duration',
+        expect.any(Number),
+        { ...attributes, 'http.response.status_code': 503, 'error.type': '503' },
+      ],
+      ['admesh.client.request.retries', 1, attributes],
+      [
+        'admesh.client.request.duration',
+        expect.any(Number),
+        { ...attributes, 'http.response.status_code': 200 },
+      ],
+      ['admesh.recommend.tokens', 120, { 'admesh.model': 'model-1' }],
+      ['admesh.recommend.recommendations', 2, { 'admesh.model': 'model-1' }],
+    ]);
+  });
+
+  test('records metrics for streamed recommendations', async () => {
+    const measurements: Measurement[] = [];
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      logLevel: 'off',
+      telemetry: { meter: fakeMeter(measurements) },
+      fetch: async () =>
+        new Response(
+          [
+            { type: 'recommendation', recommendation: { title: 'A' } },
+            { type: 'metadata', tokens_used: 40, model_used: 'model-2' },
+            { type: 'done' },
+          ]
+            .map((event) => `data: ${JSON.stringify(event)}\n\n`)
+            .join(''),
+          { headers: { 'content-type': 'text/event-stream' } },
+        ),
+    });
+
+    const stream = await client.recommend.getRecommendations({ query: 'crm', stream: true });
+    await stream.finalResponse();
+    expect(measurements.slice(1)).toEqual([
+      ['admesh.recommend.tokens', 40, { 'admesh.model': 'model-2' }],
+      ['admesh.recommend.recommendations', 1, { 'admesh.model': 'model-2' }],
+    ]);
+  });
+
+  test('skips recommendation metrics for a response without a body', async () => {
+    const measurements: Measurement[] = [];
+    const client = new Admesh({
+      apiKey: 'My API Key',
+      baseURL: 'http://localhost:5000/',
+      logLevel: 'off',
+      telemetry: { meter: fakeMeter(measurements) },
+      fetch: async () => new Response(null, { status: 204 }),
+    });
+
+    const response = await client.recommend.getRecommendations({
+      query: 'crm',
+      raiseOnEmptyRecommendations: false,
+    });
+    expect(response).toBeNull();
+    expect(measurements.map(([name]) => name)).toEqual(['admesh.client.request.duration']);
+  });
+
+  test('works with the OpenTelemetry API without a registered SDK', async () => {
+    const { client, headers } = makeClient([200], {
+      telemetry: { tracer: trace.getTracer('admesh'), meter: metrics.getMeter('admesh') },
+    });
+
+    await client.post('/foo');
+    // The no-op tracer's spans have an invalid trace ID, which isn't propagated.
+    expect(headers[0]!.has('traceparent')).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import Admesh, { AdmeshError } from 'admesh';
+
+function makeClient(statuses: number[], bodies: any[], tracking = {}) {
+  return new Admesh({
+    apiKey: 'My API Key',
+    baseURL: 'http://localhost:5000/',
+    tracking: { flushInterval: 0, flushOnExit: false, ...tracking },
+    fetch: async (url, init) => {
+      bodies.push({ url, body: JSON.parse(init?.body as string) });
+      const status = statuses.shift() ?? 200;
+      return new Response(JSON.stringify({}), {
+        status,
+        headers: { 'content-type': 'application/json', 'retry-after-ms': '1' },
+      });
+    },
+  });
+}
+
+const recommendation = {
+  ad_id: 'ad_1',
+  admesh_link: 'https://useadmesh.com/r/1',
+  product_id: 'prod_1',
+  reason: 'Great for remote teams',
+  title: 'HubSpot',
+};
+
+describe('tracking', () => {
+  test('queues events until flushed', async () => {
+    const requests: any[] = [];
+    const client = makeClient([], requests);
+
+    const event = client.tracking.impression({ ...recommendation, recommendation_id: 'rec_1' });
+    client.tracking.click({ ad_id: 'ad_1' });
+    client.tracking.conversion({ recommendation_id: 'rec_1', value: 49, currency: 'USD' });
+    expect(client.tracking.pending).toBe(3);
+    expect(requests).toHaveLength(0);
+
+    await client.tracking.flush();
+    expect(client.tracking.pending).toBe(0);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toEqual('http://localhost:5000/agent/events');
+    expect(requests[0].body.events.map((e: any) => e.type)).toEqual(['impression', 'click', 'conversion']);
+    expect(requests[0].body.events[0]).toEqual({
+      event_id: event.event_id,
+      type: 'impression',
+      timestamp: event.timestamp,
+      ad_id: 'ad_1',
+      recommendation_id: 'rec_1',
+      product_id: 'prod_1',
+      admesh_link: 'https://useadmesh.com/r/1',
+    });
+  });
+
+  test('requires an ad_id or recommendation_id', () => {
+    const client = makeClient([], []);
+    expect(() => client.tracking.click({ product_id: 'prod_1' })).toThrow(AdmeshError);
+  });
+
+  test('sends in batches', async () => {
+    const requests: any[] = [];
+    const client = makeClient([], requests, { batchSize: 2 });
+
+    client.tracking.impression({ ad_id: 'ad_1' });
+    client.tracking.impression({ ad_id: 'ad_2' });
+    client.tracking.impression({ ad_id: 'ad_3' });
+    await client.tracking.flush();
+
+    expect(requests.map((r) => r.body.events.length)).toEqual([2, 1]);
+  });
+
+  test('retries failed batches and re-queues them when retries are exhausted', async () => {
+    const requests: any[] = [];
+    const client = makeClient([500, 500, 500], requests);
+
+    client.tracking.click({ ad_id: 'ad_1' });
+    await expect(client.tracking.flush()).rejects.toThrow(Admesh.InternalServerError);
+    expect(requests).toHaveLength(3);
+    expect(client.tracking.pending).toBe(1);
+
+    await client.tracking.flush();
+    expect(client.tracking.pending).toBe(0);
+  });
+
+  test('drops rejected batches so later ones are sent', async () => {
+    const requests: any[] = [];
+    const client = makeClient([400], requests, { batchSize: 1 });
+
+    client.tracking.click({ ad_id: 'ad_1' });
+    client.tracking.click({ ad_id: 'ad_2' });
+    await client.tracking.flush();
+
+    expect(requests.map((r) => r.body.events[0].ad_id)).toEqual(['ad_1', 'ad_2']);
+    expect(client.tracking.pending).toBe(0);
+  });
+
+  test('drops batches after maxBatchAttempts', async () => {
+    const requests: any[] = [];
+    const client = makeClient([500, 500], requests, { maxBatchAttempts: 2 });
+    const retry = { maxRetries: 0 };
+
+    client.tracking.click({ ad_id: 'ad_1' });
+    await expect(client.tracking.flush(retry)).rejects.toThrow(Admesh.InternalServerError);
+    client.tracking.click({ ad_id: 'ad_2' });
+    expect(client.tracking.pending).toBe(2);
+
+    await client.tracking.flush(retry);
+    expect(requests.map((r) => r.body.events[0].ad_id)).toEqual(['ad_1', 'ad_1', 'ad_2']);
+    expect(client.tracking.pending).toBe(0);
+  });
+
+  test('flushes on an interval', async () => {
+    jest.useFakeTimers();
+    try {
+      const requests: any[] = [];
+      const client = makeClient([], requests, { flushInterval: 1000 });
+
+      client.tracking.impression({ ad_id: 'ad_1' });
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(requests).toHaveLength(1);
+      await client.tracking.shutdown();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import { AdmeshError, PseudonymVault, sanitizeAndBuild } from 'admesh';
+
+describe('PseudonymVault', () => {
+  test('sanitizeAndBuild replaces PII with numbered tokens', () => {
+    const result = sanitizeAndBuild(
+      "Hi, I'm Priya (priya@gmail.com, 555.123.4567). Cc raj@example.com, I want to pay with 4111 1111 1111 1111",
+      { pseudonymize: true },
+    );
+
+    expect(result.sanitized_text).toBe(
+      "Hi, I'm [NAME_1] ([EMAIL_1], [PHONE_1]). Cc [EMAIL_2], I want to pay with [CREDIT_CARD_1]",
+    );
+    expect(result.prompt).toBe('Suggest tools for working on want to pay with [credit_card_1].');
+    expect(result.removed.email).toBe('priya@gmail.com');
+    expect(result.vault).toBeInstanceOf(PseudonymVault);
+    expect(result.vault!.size).toBe(5);
+  });
+
+  test('placeholders are used unless pseudonymizing', () => {
+    const result = sanitizeAndBuild("Hi, I'm Priya");
+
+    expect(result.sanitized_text).toBe("Hi, I'm [NAME]");
+    expect(result).not.toHaveProperty('vault');
+  });
+
+  test('the same value gets the same token across messages', () => {
+    const vault = new PseudonymVault();
+
+    const first = sanitizeAndBuild('Email priya@gmail.com or call (555) 123-4567', { vault });
+    const second = sanitizeAndBuild('Actually use Priya@Gmail.com, or 555-123-4567, or bob@example.com', {
+      vault,
+    });
+
+    expect(first.sanitized_text).toBe('Email [EMAIL_1] or call [PHONE_1]');
+    expect(second.sanitized_text).toBe('Actually use [EMAIL_1], or [PHONE_1], or [EMAIL_2]');
+    expect(second.vault).toBe(vault);
+  });
+
+  test('restores tokens in any case, leaving unknown ones', () => {
+    const vault = new PseudonymVault();
+    const { sanitized_text } = sanitizeAndBuild("Hi, I'm Priya, priya@gmail.com", { vault });
+
+    expect(vault.restore(sanitized_text)).toBe("Hi, I'm Priya, priya@gmail.com");
+    expect(vault.restore('Welcome back, [name_1]! [NAME_2] and [EMAIL] are unchanged.')).toBe(
+      'Welcome back, Priya! [NAME_2] and [EMAIL] are unchanged.',
+    );
+    expect(vault.lookup('[EMAIL_1]')).toBe('priya@gmail.com');
+    expect(vault.lookup('[EMAIL_2]')).toBeUndefined();
+  });
+
+  test('exports and imports', async () => {
+    const vault = new PseudonymVault();
+    vault.tokenize('name', 'Priya');
+    vault.tokenize('email', 'priya@gmail.com');
+
+    const imported = await PseudonymVault.import(vault.exportUnencrypted());
+
+    expect(imported.restore('[NAME_1], [EMAIL_1]')).toBe('Priya, priya@gmail.com');
+    expect(imported.tokenize('email', 'PRIYA@gmail.com')).toBe('[EMAIL_1]');
+    expect(imported.tokenize('email', 'raj@example.com')).toBe('[EMAIL_2]');
+  });
+
+  test('encrypts exports with a key', async () => {
+    const vault = new PseudonymVault({ encryptionKey: 'correct horse battery staple' });
+    vault.tokenize('email', 'priya@gmail.com');
+
+    const exported = await vault.export();
+    expect(exported).not.toContain('priya');
+
+    const imported = await PseudonymVault.import(exported, { encryptionKey: 'correct horse battery staple' });
+    expect(imported.restore('[EMAIL_1]')).toBe('priya@gmail.com');
+
+    await expect(PseudonymVault.import(exported, { encryptionKey: 'wrong' })).rejects.toThrow(
+      new AdmeshError('Could not decrypt the vault; check the `encryptionKey`'),
+    );
+    await expect(PseudonymVault.import(exported)).rejects.toThrow(/vault is encrypted/);
+  });
+
+  test('only exports unencrypted when asked', async () => {
+    const vault = new PseudonymVault();
+    vault.tokenize('email', 'priya@gmail.com');
+
+    await expect(vault.export()).rejects.toThrow(/requires an `encryptionKey`/);
+    expect(vault.exportUnencrypted()).toContain('priya@gmail.com');
+  });
+
+  test('rejects input that is not an exported vault', async () => {
+    await expect(PseudonymVault.import('not json')).rejects.toThrow(
+      new AdmeshError('Could not read the vault; it is not an exported vault'),
+    );
+    await expect(PseudonymVault.import('{"version":1}')).rejects.toThrow(AdmeshError);
+    await expect(PseudonymVault.import('{"version":2,"entries":[]}')).rejects.toThrow(
+      new AdmeshError('Unsupported vault version: 2'),
+    );
+  });
+});